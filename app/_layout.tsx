@@ -6,6 +6,7 @@ import { useEffect } from "react";
 import { Platform } from "react-native";
 import { ErrorBoundary } from "./error-boundary";
 import { LogoImage } from '@/components/LogoImage';
+import { LocationSwitcher } from '@/components/LocationSwitcher';
 
 export const unstable_settings = {
   // Ensure that reloading on `/modal` keeps a back button present.
@@ -52,6 +53,7 @@ function RootLayoutNav() {
         options={{ 
           headerTitle: () => <LogoImage />,
           headerTitleAlign: 'center',
+          headerRight: () => <LocationSwitcher />,
         }} 
       />
       <Stack.Screen 
@@ -63,6 +65,84 @@ function RootLayoutNav() {
             fontWeight: '600',
           },
           headerBackVisible: false,
+          headerRight: () => <LocationSwitcher />,
+        }}
+      />
+      <Stack.Screen 
+        name="rarities" 
+        options={{
+          headerTitle: "Rare Birds",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="settings" 
+        options={{
+          headerTitle: "Settings",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="checklist" 
+        options={{
+          headerTitle: "Checklist",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="hotspot" 
+        options={{
+          headerTitle: "Hotspot",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="places" 
+        options={{
+          headerTitle: "Places",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="regions" 
+        options={{
+          headerTitle: "Browse Regions",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
+        }}
+      />
+      <Stack.Screen 
+        name="trip" 
+        options={{
+          headerTitle: "Trip",
+          headerTitleStyle: {
+            color: '#2D3F1F',
+            fontWeight: '600',
+          },
+          headerBackVisible: true,
         }}
       />
       <Stack.Screen name="modal" options={{ presentation: "modal" }} />
@@ -0,0 +1,632 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView, TextInput, Switch, SafeAreaView } from 'react-native';
+import { ClipboardList, Clock, Footprints, Minus, Plus, Download, Trash2, MapPin } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import * as Location from 'expo-location';
+import { StatusBar } from 'expo-status-bar';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useChecklistStore } from '@/hooks/use-checklist-store';
+import { useDisplayedBirds } from '@/hooks/use-displayed-birds';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchHotspots } from '@/utils/api';
+import { regionForHotspots } from '@/utils/seasonal-model';
+import {
+  checklistDurationMinutes,
+  checklistSpeciesCount,
+  checklistToRecordFormat,
+  checklistsToRecordFormat,
+} from '@/utils/checklist';
+import { shareTextFile } from '@/utils/file-export';
+import { distanceMiles, milesToKm, formatDistance } from '@/utils/geo';
+import { BirdObservation } from '@/types/birds';
+import { Checklist, ChecklistProtocol } from '@/types/checklist';
+
+const PROTOCOLS: ChecklistProtocol[] = ['Traveling', 'Stationary', 'Incidental'];
+
+// Ignore GPS fixes this inaccurate (meters) so jitter doesn't add distance
+const MAX_FIX_ACCURACY = 50;
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+const fileDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export default function ChecklistScreen() {
+  const hotspots = useBirdsStore((state) => state.hotspots);
+  const displayedBirds = useDisplayedBirds();
+  const units = useSettingsStore((state) => state.units);
+  const {
+    activeChecklist,
+    checklists,
+    startChecklist,
+    adjustCount,
+    addDistance,
+    setProtocol,
+    updateActiveChecklist,
+    finishChecklist,
+    discardChecklist,
+    deleteChecklist,
+  } = useChecklistStore();
+
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+  const [, setTick] = useState(0);
+  const lastFixRef = useRef<{ latitude: number; longitude: number } | null>(null);
+
+  // Refresh the elapsed time while recording
+  useEffect(() => {
+    if (!activeChecklist) return;
+    const interval = setInterval(() => setTick(tick => tick + 1), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [activeChecklist?.id]);
+
+  // Track distance walked on traveling checklists
+  useEffect(() => {
+    if (!activeChecklist || activeChecklist.protocol !== 'Traveling') return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+    lastFixRef.current = null;
+
+    Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Balanced, distanceInterval: 10 },
+      (position) => {
+        if (position.coords.accuracy !== null && position.coords.accuracy > MAX_FIX_ACCURACY) return;
+
+        const fix = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+        const last = lastFixRef.current;
+        if (last) {
+          addDistance(distanceMiles(last.latitude, last.longitude, fix.latitude, fix.longitude));
+        }
+        lastFixRef.current = fix;
+      }
+    )
+      .then(sub => {
+        // The checklist ended or changed protocol while the watcher was starting
+        if (cancelled) {
+          sub.remove();
+          return;
+        }
+        subscription = sub;
+      })
+      .catch(err => console.error('Error tracking checklist distance:', err));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [activeChecklist?.id, activeChecklist?.protocol]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setStartError(null);
+
+    // Record where the user is standing - the app's location may be a saved place
+    let location: { latitude: number; longitude: number };
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        setStartError('Location permission is needed to record where the checklist was made.');
+        setIsStarting(false);
+        return;
+      }
+
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+      location = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+    } catch (err) {
+      console.error('Error getting checklist position:', err);
+      setStartError("Couldn't get your position. Check that location services are on and try again.");
+      setIsStarting(false);
+      return;
+    }
+
+    // The record format needs a state and country - borrow them from hotspots around the start
+    let regionCode: string | null = null;
+    try {
+      const result = await fetchHotspots(location, 5);
+      regionCode = regionForHotspots(result.data);
+    } catch (err) {
+      console.error('Error looking up checklist region:', err);
+      regionCode = regionForHotspots(hotspots);
+    }
+
+    startChecklist({
+      locName: `Checklist at ${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`,
+      lat: location.latitude,
+      lng: location.longitude,
+      regionCode,
+    });
+    setIsStarting(false);
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleCount = (bird: BirdObservation, delta: number) => {
+    adjustCount(bird, delta);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const handleFinish = () => {
+    finishChecklist();
+    setConfirmDiscard(false);
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleDiscard = () => {
+    // Two taps, so a stray touch doesn't throw away a morning's counts
+    if (!confirmDiscard) {
+      setConfirmDiscard(true);
+      return;
+    }
+    discardChecklist();
+    setConfirmDiscard(false);
+  };
+
+  const exportChecklist = (checklist: Checklist) => {
+    shareTextFile(
+      `ebird-checklist-${fileDate(checklist.startedAt)}.csv`,
+      checklistToRecordFormat(checklist),
+      'text/csv'
+    ).catch(err => console.error('Error exporting checklist:', err));
+  };
+
+  const exportAll = () => {
+    shareTextFile(
+      `ebird-checklists-${fileDate(Date.now())}.csv`,
+      checklistsToRecordFormat(checklists),
+      'text/csv'
+    ).catch(err => console.error('Error exporting checklists:', err));
+  };
+
+  // Nearby species plus anything already counted that has dropped off the list
+  const recordableBirds: BirdObservation[] = activeChecklist
+    ? [
+        ...displayedBirds,
+        ...Object.values(activeChecklist.entries)
+          .filter(entry => !displayedBirds.some(bird => bird.speciesCode === entry.speciesCode))
+          .map(entry => ({
+            speciesCode: entry.speciesCode,
+            comName: entry.comName,
+            sciName: entry.sciName,
+          } as BirdObservation)),
+      ]
+    : [];
+
+  const renderActiveChecklist = (checklist: Checklist) => (
+    <>
+      <View style={styles.section}>
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Clock size={16} color="#2D3F1F" />
+            <Text style={styles.statText}>{formatDuration(checklistDurationMinutes(checklist))}</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Footprints size={16} color="#2D3F1F" />
+            <Text style={styles.statText}>
+              {checklist.protocol === 'Traveling' ? formatDistance(milesToKm(checklist.distanceMiles), units, 2) : '-'}
+            </Text>
+          </View>
+          <View style={styles.statItem}>
+            <ClipboardList size={16} color="#2D3F1F" />
+            <Text style={styles.statText}>{checklistSpeciesCount(checklist)} species</Text>
+          </View>
+        </View>
+
+        <View style={styles.protocolRow}>
+          {PROTOCOLS.map(protocol => (
+            <Pressable
+              key={protocol}
+              style={[styles.protocolChip, checklist.protocol === protocol && styles.protocolChipSelected]}
+              onPress={() => setProtocol(protocol)}
+            >
+              <Text style={[styles.protocolText, checklist.protocol === protocol && styles.protocolTextSelected]}>
+                {protocol}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Location name</Text>
+        <TextInput
+          style={styles.input}
+          value={checklist.locName}
+          onChangeText={(locName) => updateActiveChecklist({ locName })}
+          placeholder="Where are you birding?"
+          placeholderTextColor="#999"
+        />
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Reporting every species detected</Text>
+          <Switch
+            value={checklist.allObservationsReported}
+            onValueChange={(allObservationsReported) => updateActiveChecklist({ allObservationsReported })}
+            trackColor={{ false: '#E1E2DE', true: '#3A5129' }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+
+        <TextInput
+          style={[styles.input, styles.commentsInput]}
+          value={checklist.comments}
+          onChangeText={(comments) => updateActiveChecklist({ comments })}
+          placeholder="Checklist comments (weather, conditions...)"
+          placeholderTextColor="#999"
+          multiline
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Tap a species to count it</Text>
+        {recordableBirds.length === 0 ? (
+          <Text style={styles.emptyText}>Load nearby birds first to pick species from the list.</Text>
+        ) : (
+          recordableBirds.map(bird => {
+            const count = checklist.entries[bird.speciesCode]?.count || 0;
+            return (
+              <Pressable
+                key={bird.speciesCode}
+                style={({ pressed }) => [styles.speciesRow, count > 0 && styles.speciesRowCounted, pressed && styles.buttonPressed]}
+                onPress={() => handleCount(bird, 1)}
+              >
+                <View style={styles.speciesInfo}>
+                  <Text style={styles.speciesName} numberOfLines={1}>{bird.comName}</Text>
+                  <Text style={styles.speciesSciName} numberOfLines={1}>{bird.sciName}</Text>
+                </View>
+                {count > 0 && (
+                  <Pressable
+                    style={styles.countButton}
+                    onPress={() => handleCount(bird, -1)}
+                    hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+                  >
+                    <Minus size={14} color="#2D3F1F" />
+                  </Pressable>
+                )}
+                <Text style={styles.countText}>{count}</Text>
+                <Plus size={16} color="#2D3F1F" />
+              </Pressable>
+            );
+          })
+        )}
+      </View>
+
+      <Pressable
+        style={({ pressed }) => [
+          styles.primaryButton,
+          checklistSpeciesCount(checklist) === 0 && styles.buttonDisabled,
+          pressed && styles.buttonPressed,
+        ]}
+        onPress={handleFinish}
+        disabled={checklistSpeciesCount(checklist) === 0}
+      >
+        <Text style={styles.primaryButtonText}>Finish & Save Checklist</Text>
+      </Pressable>
+
+      <Pressable
+        style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+        onPress={handleDiscard}
+      >
+        <Text style={[styles.secondaryButtonText, confirmDiscard && styles.dangerText]}>
+          {confirmDiscard ? 'Tap again to discard' : 'Discard Checklist'}
+        </Text>
+      </Pressable>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {activeChecklist ? (
+          renderActiveChecklist(activeChecklist)
+        ) : (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <ClipboardList size={18} color="#2D3F1F" />
+              <Text style={styles.sectionTitle}>New checklist</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Record what you see on an outing. Checklists are saved on your device and can be
+              exported in eBird's record format to upload later.
+            </Text>
+            <Pressable
+              style={({ pressed }) => [
+                styles.primaryButton,
+                isStarting && styles.buttonDisabled,
+                pressed && styles.buttonPressed,
+              ]}
+              onPress={handleStart}
+              disabled={isStarting}
+            >
+              <Text style={styles.primaryButtonText}>
+                {isStarting ? 'Finding your position...' : 'Start Checklist Here'}
+              </Text>
+            </Pressable>
+            {startError && <Text style={styles.errorText}>{startError}</Text>}
+          </View>
+        )}
+
+        {checklists.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.savedHeader}>
+              <Text style={styles.sectionTitle}>Saved checklists</Text>
+              <Pressable style={styles.linkRow} onPress={exportAll}>
+                <Download size={14} color="#2D3F1F" />
+                <Text style={styles.linkText}>Export all</Text>
+              </Pressable>
+            </View>
+
+            {checklists.map(checklist => (
+              <View key={checklist.id} style={styles.savedItem}>
+                <View style={styles.savedInfo}>
+                  <Text style={styles.speciesName} numberOfLines={1}>
+                    {new Date(checklist.startedAt).toLocaleString()}
+                  </Text>
+                  <View style={styles.statItem}>
+                    <MapPin size={12} color="#666" />
+                    <Text style={styles.savedMeta} numberOfLines={1}>{checklist.locName}</Text>
+                  </View>
+                  <Text style={styles.savedMeta}>
+                    {checklistSpeciesCount(checklist)} species · {checklist.protocol} · {formatDuration(checklistDurationMinutes(checklist))}
+                  </Text>
+                </View>
+                <Pressable
+                  style={styles.iconButton}
+                  onPress={() => exportChecklist(checklist)}
+                  hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+                >
+                  <Download size={18} color="#2D3F1F" />
+                </Pressable>
+                <Pressable
+                  style={styles.iconButton}
+                  onPress={() => deleteChecklist(checklist.id)}
+                  hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+                >
+                  <Trash2 size={18} color="#666" />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  statItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statText: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  protocolRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  protocolChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+  },
+  protocolChipSelected: {
+    backgroundColor: '#2D3F1F',
+    borderColor: '#2D3F1F',
+  },
+  protocolText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  protocolTextSelected: {
+    color: '#FFFFFF',
+  },
+  label: {
+    fontSize: 13,
+    color: '#2D3F1F',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 12,
+  },
+  commentsInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 0,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D3F1F',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  speciesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    marginBottom: 6,
+  },
+  speciesRowCounted: {
+    backgroundColor: 'rgba(45, 139, 79, 0.12)',
+  },
+  speciesInfo: {
+    flex: 1,
+  },
+  speciesName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  speciesSciName: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    color: '#666',
+  },
+  countButton: {
+    padding: 6,
+    borderRadius: 14,
+    backgroundColor: '#E1E2DE',
+  },
+  countText: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  primaryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    marginBottom: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+  },
+  secondaryButtonText: {
+    color: '#2D3F1F',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  dangerText: {
+    color: '#E63946',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#E63946',
+    marginTop: 12,
+    lineHeight: 20,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  savedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    textDecorationLine: 'underline',
+  },
+  savedItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#E1E2DE',
+  },
+  savedInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  savedMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  iconButton: {
+    padding: 4,
+  },
+});
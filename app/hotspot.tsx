@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, SafeAreaView, ActivityIndicator, Switch } from 'react-native';
+import { AlertCircle, Bird, Star, Clock } from 'lucide-react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+import { fetchHotspotSpecies, fetchHotspotInfo, HotspotSpecies } from '@/utils/api';
+import { fetchBirdImages } from '@/utils/image-api';
+import { calculateBirdLikelihood } from '@/utils/bird-scoring';
+import { isNetworkError } from '@/utils/network';
+import { EBirdAuthError } from '@/utils/ebird-client';
+import { BirdCard } from '@/components/BirdCard';
+import { Hotspot } from '@/types/birds';
+
+type HotspotTab = 'likely' | 'all-time';
+
+// BirdCards shown before "Show all" - each one loads images
+const LIKELY_PREVIEW_COUNT = 25;
+
+export default function HotspotScreen() {
+  const { locId } = useLocalSearchParams<{ locId: string }>();
+  const { hotspots, location, birdImages, addBirdImages } = useBirdsStore();
+  const scoringConfig = useScoringStore((state) => state.config);
+  const lifeList = useLifeListStore((state) => state.entries);
+  const hasLifeList = Object.keys(lifeList).length > 0;
+
+  const storedHotspot = hotspots.find(item => item.locId === locId) || null;
+  const [fetchedHotspot, setFetchedHotspot] = useState<Hotspot | null>(null);
+  const hotspot = storedHotspot || (fetchedHotspot?.locId === locId ? fetchedHotspot : null);
+
+  const [data, setData] = useState<HotspotSpecies | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [tab, setTab] = useState<HotspotTab>('likely');
+  const [onlyLifers, setOnlyLifers] = useState(false);
+  const [showAllLikely, setShowAllLikely] = useState(false);
+
+  // Hotspots opened from outside the current search results are looked up by locId
+  useEffect(() => {
+    if (!locId) return;
+    let cancelled = false;
+
+    const loadSpecies = async () => {
+      setIsLoading(true);
+      setError(null);
+      setData(null);
+      try {
+        const target = storedHotspot || await fetchHotspotInfo(locId);
+        if (cancelled) return;
+        if (!storedHotspot) setFetchedHotspot(target);
+
+        const species = await fetchHotspotSpecies(target);
+        if (!cancelled) setData(species);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading hotspot species:', err);
+        setError(
+          err instanceof EBirdAuthError
+            ? err.message
+            : isNetworkError(err)
+              ? "You're offline and this hotspot hasn't been loaded before"
+              : 'Failed to load species for this hotspot'
+        );
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSpecies();
+    return () => {
+      cancelled = true;
+    };
+  }, [locId, reloadCount]);
+
+  // Likelihood of each species being there now, from its recent checklists
+  const likelyBirds = useMemo(() => {
+    if (!data) return [];
+    return calculateBirdLikelihood(data.observations, scoringConfig, location)
+      .sort((a, b) => b.likelihood - a.likelihood);
+  }, [data, scoringConfig, location]);
+
+  const isLifer = (speciesCode: string) => hasLifeList && !lifeList[speciesCode];
+  const recentCodes = new Set(likelyBirds.map(bird => bird.speciesCode));
+
+  const visibleLikely = likelyBirds
+    .filter(bird => !onlyLifers || isLifer(bird.speciesCode))
+    .slice(0, showAllLikely ? undefined : LIKELY_PREVIEW_COUNT);
+  const visibleAllTime = (data?.allTimeSpecies || []).filter(taxon => !onlyLifers || isLifer(taxon.speciesCode));
+  const liferCount = (data?.allTimeSpecies || []).filter(taxon => isLifer(taxon.speciesCode)).length;
+
+  // Images for the cards on screen
+  useEffect(() => {
+    const needingImages = visibleLikely.filter(
+      bird => !birdImages[bird.speciesCode] || birdImages[bird.speciesCode].length === 0
+    );
+    if (needingImages.length === 0) return;
+
+    fetchBirdImages(needingImages, 5)
+      .then(images => {
+        if (Object.keys(images).length > 0) addBirdImages(images);
+      })
+      .catch(imageError => console.error('Error loading bird images:', imageError));
+  }, [visibleLikely.map(bird => bird.speciesCode).join(',')]);
+
+  if (!hotspot) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          {isLoading ? (
+            <>
+              <ActivityIndicator size="large" color="#2D3F1F" />
+              <Text style={styles.loadingText}>Loading hotspot...</Text>
+            </>
+          ) : (
+            <>
+              <AlertCircle size={40} color="#666" />
+              <Text style={styles.errorText}>{error || "This hotspot couldn't be found."}</Text>
+              <Pressable style={styles.retryButton} onPress={() => setReloadCount(count => count + 1)}>
+                <Text style={styles.retryButtonText}>Retry</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      <Stack.Screen options={{ headerTitle: hotspot.locName }} />
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.summary}>
+          <View style={styles.summaryItem}>
+            <Bird size={16} color="#2D3F1F" />
+            <Text style={styles.summaryText}>
+              {data ? data.allTimeSpecies.length : hotspot.numSpeciesAllTime ?? '–'} species all time
+            </Text>
+          </View>
+          {data && (
+            <View style={styles.summaryItem}>
+              <Clock size={16} color="#2D3F1F" />
+              <Text style={styles.summaryText}>{likelyBirds.length} reported recently</Text>
+            </View>
+          )}
+          {data && hasLifeList && (
+            <View style={styles.summaryItem}>
+              <Star size={16} color="#D4A017" />
+              <Text style={styles.summaryText}>{liferCount} potential lifers</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.tabs}>
+          {(['likely', 'all-time'] as HotspotTab[]).map(option => (
+            <Pressable
+              key={option}
+              style={[styles.tab, tab === option && styles.tabSelected]}
+              onPress={() => setTab(option)}
+            >
+              <Text style={[styles.tabText, tab === option && styles.tabTextSelected]}>
+                {option === 'likely' ? 'Likely now' : 'All-time species'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {hasLifeList && (
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Only potential lifers</Text>
+            <Switch
+              value={onlyLifers}
+              onValueChange={setOnlyLifers}
+              trackColor={{ false: '#E1E2DE', true: '#3A5129' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        )}
+
+        {isLoading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color="#2D3F1F" />
+            <Text style={styles.loadingText}>Loading species...</Text>
+          </View>
+        ) : error ? (
+          <View style={styles.centered}>
+            <Text style={styles.errorText}>{error}</Text>
+            <Pressable style={styles.retryButton} onPress={() => setReloadCount(count => count + 1)}>
+              <Text style={styles.retryButtonText}>Retry</Text>
+            </Pressable>
+          </View>
+        ) : tab === 'likely' ? (
+          <>
+            {visibleLikely.length === 0 && (
+              <Text style={styles.emptyText}>No recent reports{onlyLifers ? ' of potential lifers' : ''}.</Text>
+            )}
+            {visibleLikely.map(bird => (
+              <BirdCard key={bird.speciesCode} bird={bird} />
+            ))}
+            {!showAllLikely && likelyBirds.length > LIKELY_PREVIEW_COUNT && (
+              <Pressable style={styles.showAllButton} onPress={() => setShowAllLikely(true)}>
+                <Text style={styles.showAllText}>Show all {likelyBirds.length} species</Text>
+              </Pressable>
+            )}
+          </>
+        ) : (
+          <View style={styles.speciesList}>
+            {visibleAllTime.map(taxon => (
+              <View key={taxon.speciesCode} style={styles.speciesRow}>
+                <View style={styles.speciesInfo}>
+                  <Text style={styles.speciesName}>{taxon.comName}</Text>
+                  <Text style={styles.sciName}>{taxon.sciName}</Text>
+                </View>
+                {recentCodes.has(taxon.speciesCode) && (
+                  <View style={[styles.badge, styles.recentBadge]}>
+                    <Text style={styles.badgeText}>Recent</Text>
+                  </View>
+                )}
+                {isLifer(taxon.speciesCode) && (
+                  <View style={[styles.badge, styles.liferBadge]}>
+                    <Star size={10} color="#FFFFFF" />
+                    <Text style={styles.badgeText}>Lifer</Text>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  summaryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 4,
+    margin: 16,
+    marginBottom: 8,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#2D3F1F',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  tabTextSelected: {
+    color: '#FFFFFF',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#2D3F1F',
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#E63946',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    padding: 16,
+  },
+  showAllButton: {
+    alignItems: 'center',
+    padding: 16,
+  },
+  showAllText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  speciesList: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    marginHorizontal: 16,
+    paddingHorizontal: 16,
+  },
+  speciesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  speciesInfo: {
+    flex: 1,
+  },
+  speciesName: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  sciName: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  recentBadge: {
+    backgroundColor: '#3A5129',
+  },
+  liferBadge: {
+    backgroundColor: '#D4A017',
+  },
+  badgeText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -1,19 +1,40 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Pressable, Platform, Dimensions, ActivityIndicator, ScrollView, Linking, SafeAreaView, Modal, Animated } from 'react-native';
-import { X, MapPin, ExternalLink, Calendar, Bird, Info, ChevronRight, AlertCircle, Eye, Filter, SortAsc, SortDesc, Check } from 'lucide-react-native';
+import { X, MapPin, ExternalLink, Calendar, Bird, Info, ChevronRight, AlertCircle, Eye, Filter, SortAsc, SortDesc, Check, Map as MapIcon, List, Target, Route, SquareCheck, Square, Share2 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { useBirdsStore } from '@/hooks/use-birds-store';
-import { fetchHotspots, fetchHotspotDetails } from '@/utils/api';
-import { Hotspot } from '@/types/birds';
+import { usePlacesStore } from '@/hooks/use-places-store';
+import { useTargetsStore } from '@/hooks/use-targets-store';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { useTripsStore } from '@/hooks/use-trips-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchHotspots, fetchRegionalHotspots, fetchHotspotDetails, fetchTargetSightings } from '@/utils/api';
+import { scoreHotspotsForTargets, hotspotsToCheckForTargets, HotspotTargetScore } from '@/utils/target-ranking';
+import { Hotspot, LocationState } from '@/types/birds';
+import { EBirdChecklistSummary } from '@/types/ebird';
+import { EBirdAuthError } from '@/utils/ebird-client';
+import { CachedResult, formatDataAsOf } from '@/utils/response-cache';
+import { isNetworkError } from '@/utils/network';
+import { shareTextFile } from '@/utils/file-export';
+import { distanceKm, bearingDegrees, compassDirection, formatDistance, formatRadius } from '@/utils/geo';
+import { searchedRadiusMiles } from '@/utils/search-radius';
+import { buildGeoExport, hotspotPoints, sightingPoints, GeoExportFormat } from '@/utils/geo-export';
 import { StatusBar } from 'expo-status-bar';
 import { useRouter, useNavigation } from 'expo-router';
 import { Stack } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Image } from 'expo-image';
 import { RadiusSettings } from '@/components/RadiusSettings';
+import { RadiusCapNotice } from '@/components/RadiusCapNotice';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { HotspotMap } from '@/components/HotspotMap';
+import { TargetSpeciesPicker } from '@/components/TargetSpeciesPicker';
+import { GeoExportButtons } from '@/components/GeoExportButtons';
 
 const { width, height } = Dimensions.get('window');
 
+const fileDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
 // Quality levels for filtering
 const QUALITY_LEVELS = [
   { label: 'All', minSpecies: 0 },
@@ -30,7 +51,8 @@ const SORT_OPTIONS = [
   { label: 'Distance (nearest first)', value: 'distance', direction: 'asc' },
   { label: 'Distance (farthest first)', value: 'distance', direction: 'desc' },
   { label: 'Name (A to Z)', value: 'name', direction: 'asc' },
-  { label: 'Name (Z to A)', value: 'name', direction: 'desc' }
+  { label: 'Name (Z to A)', value: 'name', direction: 'desc' },
+  { label: 'Target species (best chance first)', value: 'targets', direction: 'desc' }
 ];
 
 // Results limit options
@@ -47,20 +69,38 @@ export default function HotspotsScreen() {
   const { 
     location, 
     searchRadius, 
+    searchRegion,
+    searchCenter,
     setSearchRadius, 
     hotspots, 
     setHotspots, 
     isLoadingHotspots, 
     setIsLoadingHotspots,
     hotspotsLimit,
-    setHotspotsLimit
+    setHotspotsLimit,
+    hotspotsFetchedAt,
+    setHotspotsFetchedAt,
+    isOffline,
+    setIsOffline,
+    birds
   } = useBirdsStore();
+  const selectedPlace = usePlacesStore((state) =>
+    state.places.find(place => place.id === state.selectedPlaceId) || null
+  );
+  const targets = useTargetsStore((state) => state.targets);
+  const recencyDecayPerDay = useScoringStore((state) => state.config.recencyDecayPerDay);
+  const savedTripCount = useTripsStore((state) => state.trips.length);
+  const units = useSettingsStore((state) => state.units);
+  const tileLargeSearches = useSettingsStore((state) => state.tileLargeSearches);
   
   const [selectedHotspot, setSelectedHotspot] = useState<Hotspot | null>(null);
-  const [hotspotDetails, setHotspotDetails] = useState<any>(null);
+  const [hotspotDetails, setHotspotDetails] = useState<EBirdChecklistSummary[] | null>(null);
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showInfoTooltip, setShowInfoTooltip] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  // Hotspots picked for a trip; null when not planning one
+  const [tripSelection, setTripSelection] = useState<string[] | null>(null);
   
   // Filter state
   // Set default quality filter to All (show all results)
@@ -70,44 +110,106 @@ export default function HotspotsScreen() {
   const qualityHighestSort = SORT_OPTIONS.find(s => s.value === 'quality' && s.direction === 'desc') || SORT_OPTIONS[0];
   const [sortOption, setSortOption] = useState(qualityHighestSort);
   const [filteredHotspots, setFilteredHotspots] = useState<Hotspot[]>([]);
+  const [targetScores, setTargetScores] = useState<Record<string, HotspotTargetScore>>({});
+  const [isLoadingTargets, setIsLoadingTargets] = useState(false);
   
   // Modal state
   const [modalVisible, setModalVisible] = useState(false);
-  const [activeModal, setActiveModal] = useState<'radius' | 'filter' | null>(null);
+  const [activeModal, setActiveModal] = useState<'radius' | 'filter' | 'targets' | 'export' | null>(null);
   const modalFadeAnim = useRef(new Animated.Value(0)).current;
   const modalSlideAnim = useRef(new Animated.Value(height)).current;
   
+  // Region searches don't need the user's location; distances are then measured from the region's centre
+  const canSearch = !!searchRegion || !!location;
+  const distanceOrigin = searchRegion ? searchCenter ?? location : location;
+
   // Load hotspots when the page loads or search radius changes
   useEffect(() => {
-    if (location) {
+    if (canSearch) {
       loadHotspots();
     }
-  }, [location, searchRadius]);
+  }, [location, searchRadius, searchRegion?.code, tileLargeSearches]);
+  
+  // Re-score hotspots whenever the targets or the hotspots change
+  useEffect(() => {
+    if (targets.length === 0 || hotspots.length === 0) {
+      setTargetScores({});
+      setIsLoadingTargets(false);
+      return;
+    }
+    let cancelled = false;
+
+    const loadTargetScores = async () => {
+      setIsLoadingTargets(true);
+      try {
+        // Only the nearest hotspots are checked; the rest show no target summary
+        const checked = hotspotsToCheckForTargets(hotspots, distanceOrigin);
+        const sightings = await fetchTargetSightings(targets.map(target => target.speciesCode), checked);
+        if (!cancelled) setTargetScores(scoreHotspotsForTargets(checked, sightings, recencyDecayPerDay));
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Error loading target species sightings:', err);
+        setTargetScores({});
+      } finally {
+        if (!cancelled) setIsLoadingTargets(false);
+      }
+    };
+
+    loadTargetScores();
+    return () => {
+      cancelled = true;
+    };
+  }, [targets, hotspots, recencyDecayPerDay, distanceOrigin?.latitude, distanceOrigin?.longitude]);
   
   // Apply filters whenever hotspots or filter settings change
   useEffect(() => {
     applyFilters();
-  }, [hotspots, qualityFilter, sortOption, location, hotspotsLimit]);
+  }, [hotspots, qualityFilter, sortOption, distanceOrigin?.latitude, distanceOrigin?.longitude, hotspotsLimit, targetScores]);
+  
+  const applyHotspotsResult = (result: CachedResult<Hotspot[]>) => {
+    setHotspots(result.data);
+    setHotspotsFetchedAt(result.fetchedAt);
+    if (!result.isStale) {
+      setIsOffline(false);
+    }
+  };
   
   const loadHotspots = async () => {
-    if (!location) return;
+    if (!canSearch) return;
     
     setIsLoadingHotspots(true);
     setError(null);
     
     try {
-      const hotspotsData = await fetchHotspots(location, searchRadius);
-      setHotspots(hotspotsData);
+      const cacheOptions = {
+        onRevalidated: applyHotspotsResult,
+        onRevalidateError: (revalidateError: unknown) => {
+          if (isNetworkError(revalidateError)) {
+            setIsOffline(true);
+          }
+        },
+      };
+      const result = searchRegion
+        ? await fetchRegionalHotspots(searchRegion.code, cacheOptions)
+        : await fetchHotspots(location as LocationState, searchRadius, cacheOptions); // set unless searching a region
+      applyHotspotsResult(result);
     } catch (err) {
       console.error('Error loading hotspots:', err);
-      setError('Failed to load birding hotspots');
+      
+      // Keep showing the last hotspots we loaded when there's no signal
+      if (isNetworkError(err) && hotspots.length > 0) {
+        setIsOffline(true);
+        return;
+      }
+      
+      setError(err instanceof EBirdAuthError ? err.message : 'Failed to load birding hotspots');
     } finally {
       setIsLoadingHotspots(false);
     }
   };
   
   const applyFilters = () => {
-    if (!hotspots.length || !location) {
+    if (!hotspots.length) {
       setFilteredHotspots([]);
       return;
     }
@@ -130,12 +232,9 @@ export default function HotspotsScreen() {
           : aQuality - bQuality; // Lowest first
       }
       
-      if (sortOption.value === 'distance') {
-        const aDist = calculateDistance(location.latitude, location.longitude, a.lat, a.lng);
-        const bDist = calculateDistance(location.latitude, location.longitude, b.lat, b.lng);
-        
-        const aValue = aDist ? parseFloat(aDist) : 9999;
-        const bValue = bDist ? parseFloat(bDist) : 9999;
+      if (sortOption.value === 'distance' && distanceOrigin) {
+        const aValue = distanceKm(distanceOrigin.latitude, distanceOrigin.longitude, a.lat, a.lng);
+        const bValue = distanceKm(distanceOrigin.latitude, distanceOrigin.longitude, b.lat, b.lng);
         
         return sortOption.direction === 'asc'
           ? aValue - bValue  // Nearest first
@@ -149,6 +248,14 @@ export default function HotspotsScreen() {
           : b.locName.localeCompare(a.locName); // Z to A
       }
       
+      if (sortOption.value === 'targets') {
+        const aExpected = targetScores[a.locId]?.expectedTargets || 0;
+        const bExpected = targetScores[b.locId]?.expectedTargets || 0;
+        
+        // Ties fall back to the richer hotspot
+        return bExpected - aExpected || (b.numSpeciesAllTime || 0) - (a.numSpeciesAllTime || 0);
+      }
+      
       return 0;
     });
     
@@ -180,9 +287,31 @@ export default function HotspotsScreen() {
       Haptics.selectionAsync();
     }
     
+    // While planning a trip, taps pick stops instead of opening details
+    if (tripSelection) {
+      setTripSelection(tripSelection.includes(hotspot.locId)
+        ? tripSelection.filter(locId => locId !== hotspot.locId)
+        : [...tripSelection, hotspot.locId]);
+      return;
+    }
+    
     loadHotspotDetails(hotspot);
   };
   
+  const toggleTripPlanning = () => {
+    setTripSelection(tripSelection ? null : []);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+  
+  const planTrip = () => {
+    if (!tripSelection || tripSelection.length === 0) return;
+    router.push({ pathname: '/trip', params: { locIds: tripSelection.join(',') } });
+    setTripSelection(null);
+  };
+  
   const handleCloseDetails = () => {
     setSelectedHotspot(null);
     setHotspotDetails(null);
@@ -213,21 +342,13 @@ export default function HotspotsScreen() {
     }
   };
 
-  // Calculate distance between two coordinates in miles
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    if (!lat1 || !lon1 || !lat2 || !lon2) return null;
-    
-    const R = 3958.8; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    const distance = R * c;
+  // e.g. "3.2 mi NE" from the search location
+  const describeDistance = (hotspot: Hotspot) => {
+    if (!distanceOrigin) return null;
     
-    return distance.toFixed(1);
+    const km = distanceKm(distanceOrigin.latitude, distanceOrigin.longitude, hotspot.lat, hotspot.lng);
+    const direction = compassDirection(bearingDegrees(distanceOrigin.latitude, distanceOrigin.longitude, hotspot.lat, hotspot.lng));
+    return `${formatDistance(km, units)} ${direction}`;
   };
   
   // Get a quality indicator based on species count
@@ -242,7 +363,7 @@ export default function HotspotsScreen() {
   };
   
   // Modal functions
-  const openModal = (type: 'radius' | 'filter') => {
+  const openModal = (type: 'radius' | 'filter' | 'targets' | 'export') => {
     setActiveModal(type);
     setModalVisible(true);
     
@@ -293,6 +414,44 @@ export default function HotspotsScreen() {
     loadHotspots();
   };
   
+  const exportHotspots = (format: GeoExportFormat) => {
+    const { filename, contents, mimeType } = buildGeoExport(
+      `hotspots-${fileDate(Date.now())}`,
+      'Birding hotspots',
+      hotspotPoints(filteredHotspots),
+      format
+    );
+    shareTextFile(filename, contents, mimeType).catch(err => console.error('Error exporting hotspots:', err));
+  };
+  
+  const exportSightings = (format: GeoExportFormat) => {
+    const { filename, contents, mimeType } = buildGeoExport(
+      `sightings-${fileDate(Date.now())}`,
+      'Recent bird sightings',
+      sightingPoints(birds),
+      format
+    );
+    shareTextFile(filename, contents, mimeType).catch(err => console.error('Error exporting sightings:', err));
+  };
+  
+  const handleTargetsApply = () => {
+    setSortOption(SORT_OPTIONS.find(s => s.value === 'targets') || sortOption);
+    closeModal();
+  };
+  
+  // "2 of 3 targets likely · best for Snowy Owl (80%)"
+  const describeTargetScore = (score?: HotspotTargetScore) => {
+    if (!score) return null;
+    
+    const likely = Object.values(score.chances).filter(chance => chance >= 0.5).length;
+    const best = targets
+      .map(target => ({ target, chance: score.chances[target.speciesCode] || 0 }))
+      .sort((a, b) => b.chance - a.chance)[0];
+    
+    if (!best || best.chance === 0) return `None of ${targets.length} targets reported recently`;
+    return `${likely} of ${targets.length} targets likely · ${best.target.comName} ${Math.round(best.chance * 100)}%`;
+  };
+  
   const resetFilters = () => {
     setQualityFilter(QUALITY_LEVELS[0]);
     setSortOption(qualityHighestSort); // Keep the default sort
@@ -327,17 +486,52 @@ export default function HotspotsScreen() {
       <StatusBar style="dark" />
       
       <View style={styles.content}>
+        {isOffline && <OfflineBanner message="Showing saved hotspots" fetchedAt={hotspotsFetchedAt} />}
+        
         {/* Top info bar */}
         <View style={styles.topInfoBar}>
-          <Text style={styles.topInfoText}>
-            Top {filteredHotspots.length} Hotspots within {searchRadius} miles
-          </Text>
-          <Pressable 
-            style={styles.infoButton}
-            onPress={toggleInfoTooltip}
-          >
-            <Info size={16} color="#2D3F1F" />
-          </Pressable>
+          <View>
+            <Text style={styles.topInfoText}>
+              Top {filteredHotspots.length} Hotspots {searchRegion
+                ? `in ${searchRegion.name}`
+                : `within ${formatRadius(searchedRadiusMiles(searchRadius, tileLargeSearches), units, true)}${selectedPlace ? ` of ${selectedPlace.name}` : ''}`}
+            </Text>
+            <RadiusCapNotice />
+            {hotspotsFetchedAt && (
+              <Text style={styles.dataAsOfText}>
+                Data {formatDataAsOf(hotspotsFetchedAt)}
+              </Text>
+            )}
+          </View>
+          <View style={styles.topInfoActions}>
+            <Pressable 
+              style={styles.infoButton}
+              onPress={() => openModal('export')}
+              hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+            >
+              <Share2 size={18} color="#2D3F1F" />
+            </Pressable>
+            <Pressable 
+              style={styles.infoButton}
+              onPress={toggleTripPlanning}
+              hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+            >
+              <Route size={18} color={tripSelection ? '#3A6EA5' : '#2D3F1F'} />
+            </Pressable>
+            <Pressable 
+              style={styles.infoButton}
+              onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+              hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+            >
+              {viewMode === 'list' ? <MapIcon size={18} color="#2D3F1F" /> : <List size={18} color="#2D3F1F" />}
+            </Pressable>
+            <Pressable 
+              style={styles.infoButton}
+              onPress={toggleInfoTooltip}
+            >
+              <Info size={16} color="#2D3F1F" />
+            </Pressable>
+          </View>
         </View>
         
         {/* Info tooltip - moved outside of the topInfoBar to ensure it's above all content */}
@@ -357,6 +551,34 @@ export default function HotspotsScreen() {
           </View>
         )}
         
+        {tripSelection && (
+          <View style={styles.tripBar}>
+            <View style={styles.tripBarInfo}>
+              <Text style={styles.tripBarText}>
+                {tripSelection.length === 0
+                  ? 'Tap hotspots to add them to a trip'
+                  : `${tripSelection.length} hotspot${tripSelection.length === 1 ? '' : 's'} selected`}
+              </Text>
+              {savedTripCount > 0 && (
+                <Pressable onPress={() => router.push('/trip')}>
+                  <Text style={styles.tripBarLink}>Saved trips ({savedTripCount})</Text>
+                </Pressable>
+              )}
+            </View>
+            <Pressable
+              style={({ pressed }) => [
+                styles.tripBarButton,
+                tripSelection.length === 0 && styles.footerButtonDisabled,
+                pressed && styles.speciesButtonPressed
+              ]}
+              onPress={planTrip}
+              disabled={tripSelection.length === 0}
+            >
+              <Text style={styles.tripBarButtonText}>Plan route</Text>
+            </Pressable>
+          </View>
+        )}
+        
         {isLoadingHotspots ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#2D3F1F" />
@@ -372,6 +594,18 @@ export default function HotspotsScreen() {
               <Text style={styles.retryButtonText}>Retry</Text>
             </Pressable>
           </View>
+        ) : viewMode === 'map' ? (
+          <ScrollView
+            style={styles.hotspotList}
+            contentContainerStyle={styles.hotspotListContentWithFooter}
+          >
+            <HotspotMap
+              hotspots={filteredHotspots}
+              sightings={birds}
+              selectedHotspotId={selectedHotspot?.locId}
+              onSelectHotspot={handleHotspotPress}
+            />
+          </ScrollView>
         ) : (
           <View style={styles.hotspotListContainer}>
             <ScrollView 
@@ -379,21 +613,16 @@ export default function HotspotsScreen() {
               contentContainerStyle={[
                 styles.hotspotListContent,
                 // Add extra padding at the bottom for the footer
-                location && !isLoadingHotspots && !error && styles.hotspotListContentWithFooter
+                canSearch && !isLoadingHotspots && !error && styles.hotspotListContentWithFooter
               ]}
               showsVerticalScrollIndicator={false}
             >
               {filteredHotspots.length > 0 ? (
                 filteredHotspots.map((hotspot) => {
-                  const distance = location ? 
-                    calculateDistance(
-                      location.latitude, 
-                      location.longitude, 
-                      hotspot.lat, 
-                      hotspot.lng
-                    ) : null;
+                  const distance = describeDistance(hotspot);
                   
                   const quality = getHotspotQuality(hotspot.numSpeciesAllTime);
+                  const targetSummary = targets.length > 0 ? describeTargetScore(targetScores[hotspot.locId]) : null;
                   
                   return (
                     <Pressable
@@ -412,7 +641,13 @@ export default function HotspotsScreen() {
                           <View style={styles.hotspotInfo}>
                             <Text style={styles.hotspotName}>{hotspot.locName}</Text>
                           </View>
-                          <ChevronRight size={18} color="#666" />
+                          {tripSelection ? (
+                            tripSelection.includes(hotspot.locId)
+                              ? <SquareCheck size={20} color="#2D3F1F" />
+                              : <Square size={20} color="#666" />
+                          ) : (
+                            <ChevronRight size={18} color="#666" />
+                          )}
                         </View>
                         
                         <View style={styles.hotspotDetails}>
@@ -439,7 +674,7 @@ export default function HotspotsScreen() {
                               <View style={styles.hotspotDetailItem}>
                                 <MapPin size={14} color="#666" />
                                 <Text style={styles.hotspotDetailText}>
-                                  {distance} miles away
+                                  {distance}
                                 </Text>
                               </View>
                             )}
@@ -451,6 +686,15 @@ export default function HotspotsScreen() {
                             </View>
                           )}
                         </View>
+                        
+                        {targets.length > 0 && (
+                          <View style={styles.hotspotTargetRow}>
+                            <Target size={14} color="#2D3F1F" />
+                            <Text style={styles.hotspotTargetText}>
+                              {isLoadingTargets ? 'Checking target species...' : targetSummary}
+                            </Text>
+                          </View>
+                        )}
                       </View>
                     </Pressable>
                   );
@@ -474,7 +718,7 @@ export default function HotspotsScreen() {
         )}
         
         {/* Footer Bar */}
-        {location && !isLoadingHotspots && !error && (
+        {canSearch && !isLoadingHotspots && !error && (
           <View style={styles.footerContainer}>
             <LinearGradient
               colors={['rgba(45, 63, 31, 0.9)', 'rgba(45, 63, 31, 0.95)']}
@@ -485,14 +729,16 @@ export default function HotspotsScreen() {
                   <Pressable 
                     style={({ pressed }) => [
                       styles.footerButton,
+                      isOffline && styles.footerButtonDisabled,
                       pressed && styles.footerButtonPressed
                     ]}
                     onPress={() => openModal('radius')}
+                    disabled={isOffline} // Changing the radius needs a new search
                   >
                     <View style={styles.footerButtonContent}>
                       <MapPin size={20} color="#FFFFFF" />
                       <Text style={styles.footerButtonText}>
-                        {searchRadius} mi
+                        {searchRegion ? searchRegion.code : formatRadius(searchRadius, units)}
                       </Text>
                     </View>
                   </Pressable>
@@ -512,6 +758,21 @@ export default function HotspotsScreen() {
                     </View>
                   </Pressable>
                   
+                  <Pressable 
+                    style={({ pressed }) => [
+                      styles.footerButton,
+                      pressed && styles.footerButtonPressed
+                    ]}
+                    onPress={() => openModal('targets')}
+                  >
+                    <View style={styles.footerButtonContent}>
+                      <Target size={20} color="#FFFFFF" />
+                      <Text style={styles.footerButtonText}>
+                        {targets.length > 0 ? `${targets.length} Targets` : 'Targets'}
+                      </Text>
+                    </View>
+                  </Pressable>
+                  
                   <Pressable 
                     style={({ pressed }) => [
                       styles.footerButton,
@@ -595,6 +856,17 @@ export default function HotspotsScreen() {
                         <Text style={styles.detailsActionText}>View on eBird</Text>
                       </Pressable>
                     </View>
+                    
+                    <Pressable 
+                      style={({ pressed }) => [styles.speciesButton, pressed && styles.speciesButtonPressed]}
+                      onPress={() => {
+                        handleCloseDetails();
+                        router.push({ pathname: '/hotspot', params: { locId: selectedHotspot.locId } });
+                      }}
+                    >
+                      <Bird size={18} color="#FFFFFF" />
+                      <Text style={styles.speciesButtonText}>Species & likely birds</Text>
+                    </Pressable>
                   </>
                 )}
               </View>
@@ -636,6 +908,40 @@ export default function HotspotsScreen() {
                   <RadiusSettings onSelect={handleRadiusChange} onClose={closeModal} />
                 )}
                 
+                {activeModal === 'targets' && (
+                  <TargetSpeciesPicker onApply={handleTargetsApply} onClose={closeModal} />
+                )}
+                
+                {activeModal === 'export' && (
+                  <View style={styles.filterModalContent}>
+                    <View style={styles.filterModalHeader}>
+                      <Text style={styles.filterModalTitle}>Export</Text>
+                      <Pressable 
+                        style={styles.filterModalCloseButton}
+                        onPress={closeModal}
+                      >
+                        <X size={24} color="#2D3F1F" />
+                      </Pressable>
+                    </View>
+                    
+                    <View style={styles.filterSection}>
+                      <Text style={styles.filterSectionTitle}>Hotspots ({filteredHotspots.length})</Text>
+                      <Text style={styles.filterSectionDescription}>
+                        The hotspots in the list, with your current filters, as waypoints
+                      </Text>
+                      <GeoExportButtons onExport={exportHotspots} disabled={filteredHotspots.length === 0} />
+                    </View>
+                    
+                    <View style={styles.filterSection}>
+                      <Text style={styles.filterSectionTitle}>Sightings ({birds.length})</Text>
+                      <Text style={styles.filterSectionDescription}>
+                        One waypoint per location where the current birds were reported
+                      </Text>
+                      <GeoExportButtons onExport={exportSightings} disabled={birds.length === 0} />
+                    </View>
+                  </View>
+                )}
+                
                 {activeModal === 'filter' && (
                   <View style={styles.filterModalContent}>
                     <View style={styles.filterModalHeader}>
@@ -837,9 +1143,18 @@ const styles = StyleSheet.create({
     color: '#2D3F1F',
     fontWeight: '500',
   },
+  dataAsOfText: {
+    fontSize: 12,
+    color: '#666',
+  },
   infoButton: {
     padding: 4,
   },
+  topInfoActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   // Tooltip container positioned absolutely over the entire screen
   infoTooltipContainer: {
     position: 'absolute',
@@ -995,6 +1310,51 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: 'white',
   },
+  tripBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: 'white',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  tripBarInfo: {
+    flex: 1,
+  },
+  tripBarText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  tripBarLink: {
+    fontSize: 12,
+    color: '#3A6EA5',
+    marginTop: 2,
+  },
+  tripBarButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+  },
+  tripBarButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hotspotTargetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  hotspotTargetText: {
+    fontSize: 12,
+    color: '#2D3F1F',
+    fontWeight: '500',
+    flex: 1,
+  },
   noHotspotsContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -1063,6 +1423,9 @@ const styles = StyleSheet.create({
   footerButtonPressed: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
   },
+  footerButtonDisabled: {
+    opacity: 0.5,
+  },
   footerButtonContent: {
     alignItems: 'center',
     gap: 4,
@@ -1150,6 +1513,24 @@ const styles = StyleSheet.create({
     color: '#2D3F1F',
     fontWeight: '500',
   },
+  speciesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2D3F1F',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  speciesButtonPressed: {
+    opacity: 0.8,
+  },
+  speciesButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   // Modal styles
   modalSafeArea: {
     flex: 1,
@@ -1,19 +1,44 @@
-import { useEffect, useCallback, useState, useMemo, useRef } from 'react';
+import { useEffect, useCallback, useState, useRef } from 'react';
 import { StyleSheet, View, Text, RefreshControl, ScrollView, Animated, Dimensions, Linking, Platform, Pressable, Modal, SafeAreaView } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { useBirdsStore } from '@/hooks/use-birds-store';
-import { useFilterStore } from '@/hooks/use-filter-store';
-import { fetchNearbyBirds } from '@/utils/api';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+import { usePlacesStore } from '@/hooks/use-places-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { useDisplayedBirds } from '@/hooks/use-displayed-birds';
+import {
+  fetchNearbyBirds,
+  fetchNotableBirds,
+  fetchRegionalBirds,
+  fetchRegionalNotableBirds,
+  fetchRegionInfo,
+  fetchSeasonalStats,
+  fetchActivityProfiles,
+} from '@/utils/api';
 import { fetchBirdImages } from '@/utils/image-api';
 import { calculateBirdLikelihood } from '@/utils/bird-scoring';
+import { CachedResult, formatDataAsOf } from '@/utils/response-cache';
+import { isNetworkError } from '@/utils/network';
+import { markNotableBirds } from '@/utils/notable-birds';
+import { applySeasonalModel } from '@/utils/seasonal-model';
+import { applyActivityModel } from '@/utils/activity-model';
+import { regionCenter, regionBounds } from '@/utils/regions';
+import { formatRadius } from '@/utils/geo';
+import { searchedRadiusMiles, autoExpandedRadius } from '@/utils/search-radius';
 import * as Location from 'expo-location';
 import { BirdCard } from '@/components/BirdCard';
+import { SightingsMap } from '@/components/SightingsMap';
 import { RotatingLoadingImage } from '@/components/RotatingLoadingImage';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Search, MapPin, Filter, Map } from 'lucide-react-native';
+import { Search, MapPin, Filter, Map, Settings, Sparkles, ClipboardList, List, Share2 } from 'lucide-react-native';
 import { FilterSettings } from '@/components/FilterSettings';
 import { RadiusSettings } from '@/components/RadiusSettings';
+import { RadiusCapNotice } from '@/components/RadiusCapNotice';
+import { SightingsExport } from '@/components/SightingsExport';
+import { OfflineBanner } from '@/components/OfflineBanner';
 import { useRouter } from 'expo-router';
+import { BirdObservation, LocationState } from '@/types/birds';
 
 const { width, height } = Dimensions.get('window');
 
@@ -21,36 +46,72 @@ export default function BirdsScreen() {
   const router = useRouter();
   const { 
     birds, 
-    filteredBirds,
     isLoading, 
     error, 
     location, 
+    searchCenter,
     searchRadius,
+    searchRegion,
     resultsLimit,
     birdImages,
+    birdsFetchedAt,
+    isOffline,
+    observations,
+    setObservations,
     setLocation, 
+    setSearchCenter,
+    setSearchBounds,
     setBirds, 
     setIsLoading, 
     setError,
     setSearchRadius,
-    addBirdImages
+    addBirdImages,
+    setBirdsFetchedAt,
+    setIsOffline,
+    setNotableBirds,
+    seasonalStats,
+    setSeasonalStats,
+    activityProfiles,
+    setActivityProfiles
   } = useBirdsStore();
   
-  const { sortBy, sortDirection } = useFilterStore();
+  const lifeList = useLifeListStore((state) => state.entries);
+  const hasLifeList = Object.keys(lifeList).length > 0;
+  const units = useSettingsStore((state) => state.units);
+  const tileLargeSearches = useSettingsStore((state) => state.tileLargeSearches);
+  const { places, selectedPlaceId } = usePlacesStore();
+  const selectedPlace = places.find(place => place.id === selectedPlaceId) || null;
+  const { config: scoringConfig, seasonalEnabled, activityEnabled, plannedHour } = useScoringStore();
   
   const [hasAutoExpanded, setHasAutoExpanded] = useState(false);
   const [isLoadingImages, setIsLoadingImages] = useState(false);
   const [isFullyLoaded, setIsFullyLoaded] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
   const fadeAnim = useState(new Animated.Value(0))[0];
   
   // Modal state
   const [modalVisible, setModalVisible] = useState(false);
-  const [activeModal, setActiveModal] = useState<'radius' | 'filter' | null>(null);
+  const [activeModal, setActiveModal] = useState<'radius' | 'filter' | 'export' | null>(null);
   const modalFadeAnim = useRef(new Animated.Value(0)).current;
   const modalSlideAnim = useRef(new Animated.Value(height)).current;
 
-  const loadBirds = useCallback(async (radius = searchRadius, shouldAutoExpand = true) => {
+  // Score raw eBird reports with the current scoring settings
+  const scoreObservations = (rawObservations: BirdObservation[]) => {
+    const { config, seasonalEnabled: useSeasonal, activityEnabled: useActivity, plannedHour: hour } =
+      useScoringStore.getState();
+    const { location: currentLocation, notableBirds, seasonalStats: stats, activityProfiles: profiles } =
+      useBirdsStore.getState();
+
+    const scored = calculateBirdLikelihood(rawObservations, config, currentLocation);
+    const blended = useSeasonal ? applySeasonalModel(scored, stats, config.seasonalWeight) : scored;
+    const timed = useActivity
+      ? applyActivityModel(blended, profiles, hour ?? new Date().getHours())
+      : blended;
+    return markNotableBirds(timed, notableBirds);
+  };
+
+  const loadBirds = useCallback(async (radius = searchRadius, shouldAutoExpand = true, force = false) => {
     try {
       setIsLoading(true);
       setIsFullyLoaded(false);
@@ -69,34 +130,89 @@ export default function BirdsScreen() {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
 
-      const { status } = await Location.requestForegroundPermissionsAsync();
-      if (status !== 'granted') {
+      // Where the user is - a saved place replaces the device's position, no GPS or permission
+      // needed. Region searches don't depend on it, so they carry on with the last known position.
+      let currentLocation = useBirdsStore.getState().location;
+      if (selectedPlace) {
+        currentLocation = { latitude: selectedPlace.latitude, longitude: selectedPlace.longitude };
+      } else {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status === 'granted') {
+          const position = await Location.getCurrentPositionAsync({});
+          currentLocation = {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          };
+        } else if (!searchRegion) {
+          currentLocation = null;
+        }
+      }
+
+      if (!currentLocation && !searchRegion) {
         setError('Permission to access location was denied');
         setRefreshing(false);
         setIsLoading(false);
         setIsFullyLoaded(true);
         return;
       }
+      if (currentLocation) {
+        setLocation(currentLocation);
+      }
+      const nearbyLocation = currentLocation as LocationState; // always set unless searching a region
 
-      const position = await Location.getCurrentPositionAsync({});
-      const currentLocation = {
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-      };
-      setLocation(currentLocation);
+      // Maps of a region search are centred on and fitted to the region, not the user
+      const regionInfo = searchRegion ? await fetchRegionInfo(searchRegion.code) : null;
+      setSearchCenter(regionInfo ? regionCenter(regionInfo) : null);
+      setSearchBounds(regionInfo ? regionBounds(regionInfo) : null);
 
       // Pass the resultsLimit to the API call
       // If resultsLimit is null (All), don't pass a limit
       const apiLimit = resultsLimit === null ? null : resultsLimit;
-      const birdsData = await fetchNearbyBirds(currentLocation, radius, apiLimit);
-      const scoredBirds = calculateBirdLikelihood(birdsData);
+      const cacheOptions = {
+        force, // pull-to-refresh skips the cache
+        // Cached data was stale - swap in the refreshed sightings if the search hasn't changed
+        onRevalidated: (fresh: CachedResult<BirdObservation[]>) => {
+          setIsOffline(false);
+          const current = useBirdsStore.getState();
+          if (current.searchRadius !== radius || current.searchRegion?.code !== searchRegion?.code) return;
+          setObservations(fresh.data);
+          setBirds(scoreObservations(fresh.data));
+          setBirdsFetchedAt(fresh.fetchedAt);
+        },
+        onRevalidateError: (revalidateError: unknown) => {
+          if (isNetworkError(revalidateError)) {
+            setIsOffline(true);
+          }
+        },
+      };
+      const birdsResult = searchRegion
+        ? await fetchRegionalBirds(searchRegion.code, apiLimit, cacheOptions)
+        : await fetchNearbyBirds(nearbyLocation, radius, apiLimit, cacheOptions);
+      
+      // Rare-bird reports only decorate the list, so a failure here isn't fatal
+      try {
+        const notableResult = searchRegion
+          ? await fetchRegionalNotableBirds(searchRegion.code, { force })
+          : await fetchNotableBirds(nearbyLocation, radius, { force });
+        setNotableBirds(notableResult.data);
+      } catch (notableError) {
+        console.error('Error loading notable birds:', notableError);
+      }
+      
+      const scoredBirds = scoreObservations(birdsResult.data);
+      setObservations(birdsResult.data);
       setBirds(scoredBirds);
+      setBirdsFetchedAt(birdsResult.fetchedAt);
+      if (!birdsResult.isStale) {
+        setIsOffline(false);
+      }
       
-      // If no birds found and radius is 5 miles, auto-expand to 10 miles
-      if (scoredBirds.length === 0 && radius === 5 && shouldAutoExpand && !hasAutoExpanded) {
+      // If nothing turned up at the starting radius, widen to the next option (10 mi or 10 km)
+      const expandedRadius = autoExpandedRadius(radius, useSettingsStore.getState().units);
+      if (scoredBirds.length === 0 && expandedRadius !== null && !searchRegion && shouldAutoExpand && !hasAutoExpanded) {
         setHasAutoExpanded(true);
-        setSearchRadius(10);
-        await loadBirds(10, false); // Prevent recursive auto-expansion
+        setSearchRadius(expandedRadius);
+        await loadBirds(expandedRadius, false); // Prevent recursive auto-expansion
       } else {
         // Load images for birds we don't already have
         const birdsNeedingImages = scoredBirds.filter(
@@ -141,6 +257,19 @@ export default function BirdsScreen() {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       }
     } catch (err) {
+      // No signal but we have sightings from last time - show those read-only
+      if (isNetworkError(err) && useBirdsStore.getState().birds.length > 0) {
+        setIsOffline(true);
+        setIsFullyLoaded(true);
+        
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }).start();
+        return;
+      }
+      
       setError(err instanceof Error ? err.message : 'An error occurred');
       setIsFullyLoaded(true);
       
@@ -152,49 +281,78 @@ export default function BirdsScreen() {
       setIsLoading(false);
       setRefreshing(false);
     }
-  }, [searchRadius, hasAutoExpanded, birdImages, resultsLimit]);
+  }, [searchRadius, searchRegion?.code, tileLargeSearches, hasAutoExpanded, birdImages, resultsLimit, selectedPlace?.id, selectedPlace?.latitude, selectedPlace?.longitude]);
 
   useEffect(() => {
     loadBirds();
   }, [loadBirds]);
 
+  // Re-score the current reports live when the scoring settings change
+  useEffect(() => {
+    if (observations.length > 0) {
+      setBirds(scoreObservations(observations));
+    }
+  }, [scoringConfig, seasonalEnabled, seasonalStats, activityEnabled, activityProfiles, plannedHour]);
+
+  // History and time-of-day patterns come from around the searched area
+  const modelLocation = searchRegion ? searchCenter ?? location : location;
+
+  // Pull past years' reports for these weeks when the seasonal model is on
+  useEffect(() => {
+    if (!seasonalEnabled || !modelLocation || isOffline) return;
+
+    const loadSeasonalStats = async () => {
+      try {
+        const stats = await fetchSeasonalStats(modelLocation);
+        setSeasonalStats(stats);
+
+        // Expected species haven't been reported lately, so they may have no images yet
+        const { birdImages: images, observations: current } = useBirdsStore.getState();
+        const expectedNeedingImages = scoreObservations(current).filter(
+          bird => bird.isExpected && (!images[bird.speciesCode] || images[bird.speciesCode].length === 0)
+        );
+        if (expectedNeedingImages.length > 0) {
+          const newImages = await fetchBirdImages(expectedNeedingImages, 5);
+          if (Object.keys(newImages).length > 0) {
+            addBirdImages(newImages);
+          }
+        }
+      } catch (seasonalError) {
+        // Seasonal data only adjusts the scores, so keep the recent-only list
+        console.error('Error loading seasonal data:', seasonalError);
+      }
+    };
+
+    loadSeasonalStats();
+  }, [seasonalEnabled, modelLocation?.latitude, modelLocation?.longitude]);
+
+  // Pull recent local checklists for the hour-of-day profiles when the activity model is on
+  useEffect(() => {
+    if (!activityEnabled || !modelLocation || isOffline) return;
+
+    fetchActivityProfiles(modelLocation)
+      .then(setActivityProfiles)
+      .catch(activityError => {
+        // Without profiles every species keeps its score
+        console.error('Error loading activity profiles:', activityError);
+      });
+  }, [activityEnabled, modelLocation?.latitude, modelLocation?.longitude]);
+
   // Reset auto-expand flag when search radius changes manually
   useEffect(() => {
     setHasAutoExpanded(false);
   }, [searchRadius]);
 
   // Apply sorting and limiting to the birds list
-  const displayedBirds = useMemo(() => {
-    if (!filteredBirds.length) return [];
-    
-    // First sort the birds
-    const sorted = [...filteredBirds].sort((a, b) => {
-      let comparison = 0;
-      
-      if (sortBy === 'likelihood') {
-        // Ensure we're comparing valid numbers
-        const aLikelihood = isNaN(a.likelihood) ? 0 : a.likelihood;
-        const bLikelihood = isNaN(b.likelihood) ? 0 : b.likelihood;
-        comparison = aLikelihood - bLikelihood;
-      } else if (sortBy === 'name') {
-        comparison = a.comName.localeCompare(b.comName);
-      } else if (sortBy === 'date') {
-        comparison = new Date(a.obsDt).getTime() - new Date(b.obsDt).getTime();
-      }
-      
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-    
-    // Then limit the results if needed
-    if (resultsLimit !== null) {
-      return sorted.slice(0, resultsLimit);
-    }
-    
-    return sorted;
-  }, [filteredBirds, sortBy, sortDirection, resultsLimit]);
+  const displayedBirds = useDisplayedBirds();
+
+  // Only worth calling out once the user has started a life list
+  const liferCount = hasLifeList
+    ? displayedBirds.filter(bird => !lifeList[bird.speciesCode]).length
+    : 0;
 
   // Modal functions
-  const openModal = (type: 'radius' | 'filter') => {
+  const openModal = (type: 'radius' | 'filter' | 'export') => {
     setActiveModal(type);
     setModalVisible(true);
     
@@ -256,6 +414,33 @@ export default function BirdsScreen() {
     }
   };
 
+  // Navigate to the rare birds page
+  const navigateToRarities = () => {
+    router.push('/rarities');
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  // Navigate to the field checklist recorder
+  const navigateToChecklist = () => {
+    router.push('/checklist');
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  // Navigate to the in-app settings screen
+  const navigateToSettings = () => {
+    router.push('/settings');
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
   // Open app settings to allow location permissions
   const openLocationSettings = () => {
     if (Platform.OS === 'ios') {
@@ -281,14 +466,16 @@ export default function BirdsScreen() {
                 <Pressable 
                   style={({ pressed }) => [
                     styles.footerButton,
+                    isOffline && styles.footerButtonDisabled,
                     pressed && styles.footerButtonPressed
                   ]}
                   onPress={() => openModal('radius')}
+                  disabled={isOffline} // Changing the radius needs a new search
                 >
                   <View style={styles.footerButtonContent}>
                     <MapPin size={20} color="#FFFFFF" />
                     <Text style={styles.footerButtonText}>
-                      {searchRadius} mi
+                      {searchRegion ? searchRegion.code : formatRadius(searchRadius, units)}
                     </Text>
                   </View>
                 </Pressable>
@@ -322,6 +509,51 @@ export default function BirdsScreen() {
                     </Text>
                   </View>
                 </Pressable>
+                
+                <Pressable 
+                  style={({ pressed }) => [
+                    styles.footerButton,
+                    pressed && styles.footerButtonPressed
+                  ]}
+                  onPress={navigateToRarities}
+                >
+                  <View style={styles.footerButtonContent}>
+                    <Sparkles size={20} color="#FFFFFF" />
+                    <Text style={styles.footerButtonText}>
+                      Rarities
+                    </Text>
+                  </View>
+                </Pressable>
+                
+                <Pressable 
+                  style={({ pressed }) => [
+                    styles.footerButton,
+                    pressed && styles.footerButtonPressed
+                  ]}
+                  onPress={navigateToChecklist}
+                >
+                  <View style={styles.footerButtonContent}>
+                    <ClipboardList size={20} color="#FFFFFF" />
+                    <Text style={styles.footerButtonText}>
+                      Checklist
+                    </Text>
+                  </View>
+                </Pressable>
+                
+                <Pressable 
+                  style={({ pressed }) => [
+                    styles.footerButton,
+                    pressed && styles.footerButtonPressed
+                  ]}
+                  onPress={navigateToSettings}
+                >
+                  <View style={styles.footerButtonContent}>
+                    <Settings size={20} color="#FFFFFF" />
+                    <Text style={styles.footerButtonText}>
+                      Settings
+                    </Text>
+                  </View>
+                </Pressable>
               </View>
             </SafeAreaView>
           </LinearGradient>
@@ -333,6 +565,7 @@ export default function BirdsScreen() {
 
   if (error) {
     const isLocationError = error.includes('location') || error.includes('Location');
+    const isApiKeyError = error.includes('API key');
     
     return (
       <View style={styles.container}>
@@ -364,6 +597,30 @@ export default function BirdsScreen() {
                 Fledgling needs location access to find birds near you
               </Text>
             </>
+          ) : isApiKeyError ? (
+            <>
+              <Pressable 
+                style={styles.refreshButton}
+                onPress={navigateToSettings}
+              >
+                <Text style={styles.refreshButtonText}>
+                  Update API Key
+                </Text>
+              </Pressable>
+              
+              <Pressable 
+                style={[styles.refreshButton, styles.settingsButton]}
+                onPress={() => loadBirds()}
+              >
+                <Text style={styles.refreshButtonText}>
+                  Try Again
+                </Text>
+              </Pressable>
+              
+              <Text style={styles.permissionHelpText}>
+                Fledgling needs a valid eBird API key to load sightings
+              </Text>
+            </>
           ) : (
             <Pressable 
               style={styles.refreshButton}
@@ -383,12 +640,39 @@ export default function BirdsScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
+      {isOffline && <OfflineBanner message="Showing saved sightings" fetchedAt={birdsFetchedAt} />}
+      
       {/* Top info bar - matching the style in hotspots page */}
       {!isStillLoading && displayedBirds.length > 0 && (
         <View style={styles.topInfoBar}>
-          <Text style={styles.topInfoText}>
-            Top {displayedBirds.length} Birds within {searchRadius} miles
-          </Text>
+          <View style={styles.topInfoTextContainer}>
+            <Text style={styles.topInfoText}>
+              Top {displayedBirds.length} Birds {searchRegion
+                ? `in ${searchRegion.name}`
+                : `within ${formatRadius(searchedRadiusMiles(searchRadius, tileLargeSearches), units, true)}${selectedPlace ? ` of ${selectedPlace.name}` : ''}`}
+              {liferCount > 0 ? ` · ${liferCount} potential lifer${liferCount === 1 ? '' : 's'}` : ''}
+            </Text>
+            <RadiusCapNotice />
+            {birdsFetchedAt && (
+              <Text style={styles.dataAsOfText}>
+                Data {formatDataAsOf(birdsFetchedAt)}
+              </Text>
+            )}
+          </View>
+          <Pressable
+            style={styles.viewModeButton}
+            onPress={() => openModal('export')}
+            hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+          >
+            <Share2 size={18} color="#2D3F1F" />
+          </Pressable>
+          <Pressable
+            style={styles.viewModeButton}
+            onPress={() => setViewMode(viewMode === 'list' ? 'map' : 'list')}
+            hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+          >
+            {viewMode === 'list' ? <Map size={18} color="#2D3F1F" /> : <List size={18} color="#2D3F1F" />}
+          </Pressable>
         </View>
       )}
       
@@ -402,7 +686,7 @@ export default function BirdsScreen() {
         refreshControl={
           <RefreshControl 
             refreshing={refreshing} 
-            onRefresh={() => loadBirds()} 
+            onRefresh={() => loadBirds(searchRadius, true, true)} 
             colors={['#2D3F1F']}
             tintColor="#2D3F1F"
           />
@@ -431,9 +715,15 @@ export default function BirdsScreen() {
               { opacity: fadeAnim }
             ]}
           >
-            {displayedBirds.map((bird) => (
-              <BirdCard key={bird.speciesCode} bird={bird} />
-            ))}
+            {viewMode === 'map' ? (
+              <View style={styles.mapContainer}>
+                <SightingsMap birds={displayedBirds} />
+              </View>
+            ) : (
+              displayedBirds.map((bird) => (
+                <BirdCard key={bird.speciesCode} bird={bird} />
+              ))
+            )}
           </Animated.View>
         )}
       </ScrollView>
@@ -478,6 +768,10 @@ export default function BirdsScreen() {
               {activeModal === 'filter' && (
                 <FilterSettings onClose={closeModal} showResultsLimit={true} />
               )}
+              
+              {activeModal === 'export' && (
+                <SightingsExport birds={displayedBirds} onClose={closeModal} />
+              )}
             </Animated.View>
           </Animated.View>
         </SafeAreaView>
@@ -501,11 +795,22 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E1E2DE',
   },
+  topInfoTextContainer: {
+    flex: 1,
+  },
+  viewModeButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
   topInfoText: {
     fontSize: 14,
     color: '#2D3F1F',
     fontWeight: '500',
   },
+  dataAsOfText: {
+    fontSize: 12,
+    color: '#666',
+  },
   scrollView: {
     flex: 1,
   },
@@ -598,6 +903,9 @@ const styles = StyleSheet.create({
   listContainer: {
     paddingTop: 8,
   },
+  mapContainer: {
+    paddingHorizontal: 16,
+  },
   // Footer styles
   footerContainer: {
     position: 'absolute',
@@ -636,6 +944,9 @@ const styles = StyleSheet.create({
   footerButtonPressed: {
     backgroundColor: 'rgba(255, 255, 255, 0.2)',
   },
+  footerButtonDisabled: {
+    opacity: 0.5,
+  },
   footerButtonContent: {
     alignItems: 'center',
     gap: 4,
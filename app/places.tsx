@@ -0,0 +1,346 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView, TextInput, SafeAreaView, ActivityIndicator } from 'react-native';
+import { Search, MapPin, Navigation, Check, Trash2, AlertCircle } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { usePlacesStore } from '@/hooks/use-places-store';
+import { searchPlaces, PlaceSearchResult } from '@/utils/geocoding';
+import { isNetworkError } from '@/utils/network';
+import { TileMap } from '@/components/TileMap';
+import { LocationState, SavedPlace } from '@/types/birds';
+
+// Where the map opens when we know nothing about the user's position
+const FALLBACK_CENTER: LocationState = { latitude: 39.8283, longitude: -98.5795 };
+
+export default function PlacesScreen() {
+  const router = useRouter();
+  const location = useBirdsStore((state) => state.location);
+  const { setLocation, setSearchRegion } = useBirdsStore();
+  const { places, selectedPlaceId, addPlace, removePlace, selectPlace } = usePlacesStore();
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PlaceSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [pin, setPin] = useState<LocationState | null>(null);
+  const [mapCenter, setMapCenter] = useState<LocationState>(location || FALLBACK_CENTER);
+  const [name, setName] = useState('');
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const found = await searchPlaces(query);
+      setResults(found);
+      if (found.length === 0) {
+        setSearchError('No places found');
+      }
+    } catch (err) {
+      setSearchError(isNetworkError(err) ? "You're offline - tap the map to drop a pin instead" : 'Place search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handlePickResult = (result: PlaceSearchResult) => {
+    const point = { latitude: result.latitude, longitude: result.longitude };
+    setPin(point);
+    setMapCenter(point);
+    setName(result.name.split(',')[0]); // "Jamaica Bay, Queens, New York..." -> "Jamaica Bay"
+    setResults([]);
+  };
+
+  const handleMapPress = (coordinate: LocationState) => {
+    setPin(coordinate);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const choosePlace = (place: SavedPlace | null) => {
+    selectPlace(place ? place.id : null);
+    setSearchRegion(null);
+    if (place) {
+      setLocation({ latitude: place.latitude, longitude: place.longitude });
+    }
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    router.back();
+  };
+
+  const handleSave = () => {
+    if (!pin) return;
+    choosePlace(addPlace(name, pin));
+  };
+
+  const handleRemove = (id: string) => {
+    removePlace(id);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Search size={20} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>Find a place</Text>
+          </View>
+          <Text style={styles.sectionDescription}>
+            Search for a town, park or address, or tap the map to drop a pin.
+          </Text>
+
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[styles.input, styles.searchInput]}
+              value={query}
+              onChangeText={setQuery}
+              onSubmitEditing={handleSearch}
+              placeholder="e.g. Jamaica Bay"
+              placeholderTextColor="#999"
+              returnKeyType="search"
+              autoCorrect={false}
+            />
+            <Pressable
+              style={({ pressed }) => [styles.searchButton, pressed && styles.buttonPressed]}
+              onPress={handleSearch}
+              disabled={isSearching}
+            >
+              {isSearching ? <ActivityIndicator size="small" color="#FFFFFF" /> : <Search size={18} color="#FFFFFF" />}
+            </Pressable>
+          </View>
+
+          {searchError && (
+            <View style={styles.statusRow}>
+              <AlertCircle size={16} color="#E63946" />
+              <Text style={[styles.statusText, styles.statusError]}>{searchError}</Text>
+            </View>
+          )}
+
+          {results.map((result, index) => (
+            <Pressable
+              key={`${result.latitude},${result.longitude},${index}`}
+              style={({ pressed }) => [styles.resultRow, pressed && styles.buttonPressed]}
+              onPress={() => handlePickResult(result)}
+            >
+              <MapPin size={16} color="#666" />
+              <Text style={styles.resultText} numberOfLines={2}>{result.name}</Text>
+            </Pressable>
+          ))}
+
+          <TileMap
+            center={mapCenter}
+            zoom={pin ? 13 : location ? 11 : 4}
+            markers={pin ? [{ id: 'pin', latitude: pin.latitude, longitude: pin.longitude, color: '#E63946' }] : []}
+            onPress={handleMapPress}
+          />
+
+          {pin && (
+            <>
+              <Text style={styles.coordinateText}>
+                {pin.latitude.toFixed(4)}, {pin.longitude.toFixed(4)}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="Name this place (e.g. Home, Cabin)"
+                placeholderTextColor="#999"
+              />
+              <Pressable
+                style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+                onPress={handleSave}
+              >
+                <Text style={styles.primaryButtonText}>Save & use this place</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <MapPin size={20} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>Saved places</Text>
+          </View>
+
+          <Pressable
+            style={({ pressed }) => [styles.placeRow, pressed && styles.buttonPressed]}
+            onPress={() => choosePlace(null)}
+          >
+            <Navigation size={18} color="#2D3F1F" />
+            <Text style={styles.placeName}>Current location (GPS)</Text>
+            {!selectedPlaceId && <Check size={18} color="#2D3F1F" />}
+          </Pressable>
+
+          {places.map(place => (
+            <Pressable
+              key={place.id}
+              style={({ pressed }) => [styles.placeRow, pressed && styles.buttonPressed]}
+              onPress={() => choosePlace(place)}
+            >
+              <MapPin size={18} color="#2D3F1F" />
+              <View style={styles.placeInfo}>
+                <Text style={styles.placeName} numberOfLines={1}>{place.name}</Text>
+                <Text style={styles.placeCoordinates}>
+                  {place.latitude.toFixed(4)}, {place.longitude.toFixed(4)}
+                </Text>
+              </View>
+              {place.id === selectedPlaceId && <Check size={18} color="#2D3F1F" />}
+              <Pressable onPress={() => handleRemove(place.id)} hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+                <Trash2 size={16} color="#666" />
+              </Pressable>
+            </Pressable>
+          ))}
+
+          {places.length === 0 && (
+            <Text style={styles.emptyText}>Places you save will show up here.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  searchButton: {
+    backgroundColor: '#2D3F1F',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  statusError: {
+    color: '#E63946',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D3F1F',
+  },
+  coordinateText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  placeInfo: {
+    flex: 1,
+  },
+  placeName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  placeCoordinates: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 12,
+  },
+});
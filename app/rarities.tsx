@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, RefreshControl, ActivityIndicator, SafeAreaView } from 'react-native';
+import { Sparkles } from 'lucide-react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchNotableBirds, fetchRegionalNotableBirds } from '@/utils/api';
+import { fetchBirdImages } from '@/utils/image-api';
+import { latestNotableBySpecies } from '@/utils/notable-birds';
+import { isNetworkError } from '@/utils/network';
+import { formatDataAsOf } from '@/utils/response-cache';
+import { formatRadius } from '@/utils/geo';
+import { LocationState } from '@/types/birds';
+import { searchedRadiusMiles } from '@/utils/search-radius';
+import { BirdCard } from '@/components/BirdCard';
+import { OfflineBanner } from '@/components/OfflineBanner';
+import { RadiusCapNotice } from '@/components/RadiusCapNotice';
+
+export default function RaritiesScreen() {
+  const {
+    location,
+    searchRadius,
+    searchRegion,
+    notableBirds,
+    setNotableBirds,
+    birdImages,
+    addBirdImages,
+    isOffline,
+    setIsOffline,
+  } = useBirdsStore();
+  const units = useSettingsStore((state) => state.units);
+  const tileLargeSearches = useSettingsStore((state) => state.tileLargeSearches);
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+
+  const loadRarities = useCallback(async (force = false) => {
+    if (!location && !searchRegion) return; // region searches don't need the user's location
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = searchRegion
+        ? await fetchRegionalNotableBirds(searchRegion.code, { force })
+        : await fetchNotableBirds(location as LocationState, searchRadius, {
+          force,
+          onRevalidated: (fresh) => {
+            setNotableBirds(fresh.data);
+            setFetchedAt(fresh.fetchedAt);
+            setIsOffline(false);
+          },
+        });
+      setNotableBirds(result.data);
+      setFetchedAt(result.fetchedAt);
+
+      // Rare species often aren't in the image cache yet
+      const speciesNeedingImages = latestNotableBySpecies(result.data).filter(
+        bird => !birdImages[bird.speciesCode] || birdImages[bird.speciesCode].length === 0
+      );
+      if (speciesNeedingImages.length > 0) {
+        const newImages = await fetchBirdImages(speciesNeedingImages, 5);
+        if (Object.keys(newImages).length > 0) {
+          addBirdImages(newImages);
+        }
+      }
+    } catch (err) {
+      console.error('Error loading rare birds:', err);
+
+      if (isNetworkError(err) && notableBirds.length > 0) {
+        setIsOffline(true);
+        return;
+      }
+
+      setError(err instanceof Error ? err.message : 'Failed to load rare bird reports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [location, searchRadius, searchRegion?.code, tileLargeSearches, birdImages]);
+
+  useEffect(() => {
+    loadRarities();
+  }, [location, searchRadius, searchRegion?.code, tileLargeSearches]);
+
+  const rareBirds = latestNotableBySpecies(notableBirds);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {isOffline && <OfflineBanner message="Showing saved rare bird reports" fetchedAt={fetchedAt} />}
+
+      <View style={styles.topInfoBar}>
+        <Text style={styles.topInfoText}>
+          {rareBirds.length} Rare Birds {searchRegion ? `in ${searchRegion.name}` : `within ${formatRadius(searchedRadiusMiles(searchRadius, tileLargeSearches), units, true)}`}
+        </Text>
+        <RadiusCapNotice />
+        {fetchedAt && (
+          <Text style={styles.dataAsOfText}>
+            Data {formatDataAsOf(fetchedAt)}
+          </Text>
+        )}
+      </View>
+
+      {!location && !searchRegion ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Location not available yet.</Text>
+          <Text style={styles.emptySubtext}>Load nearby birds first to find rarities around you.</Text>
+        </View>
+      ) : isLoading && rareBirds.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2D3F1F" />
+          <Text style={styles.loadingText}>Checking rare bird reports...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+          <Pressable style={styles.retryButton} onPress={() => loadRarities()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={() => loadRarities(true)}
+              colors={['#2D3F1F']}
+              tintColor="#2D3F1F"
+            />
+          }
+        >
+          {rareBirds.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <View style={styles.emptyIconContainer}>
+                <Sparkles size={40} color="#2D3F1F" />
+              </View>
+              <Text style={styles.emptyText}>No rare birds reported nearby.</Text>
+              <Text style={styles.emptySubtext}>Notable sightings from the last 30 days will show up here.</Text>
+            </View>
+          ) : (
+            rareBirds.map((bird) => (
+              <BirdCard key={bird.speciesCode} bird={bird} />
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  topInfoBar: {
+    backgroundColor: '#F5F6F3',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  topInfoText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  dataAsOfText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingTop: 8,
+    paddingBottom: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginTop: 16,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#E63946',
+    textAlign: 'center',
+    marginBottom: 16,
+    fontSize: 16,
+  },
+  retryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+    minHeight: 400,
+  },
+  emptyIconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: 'rgba(45, 63, 31, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
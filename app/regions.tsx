@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView, TextInput, SafeAreaView, ActivityIndicator } from 'react-native';
+import { ChevronRight, Globe, AlertCircle, MapPin, Check } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import {
+  fetchSubregions,
+  fetchRegionalBirds,
+  fetchRegionalSpeciesTaxa,
+  fetchRegionalHotspots,
+} from '@/utils/api';
+import { WORLD_REGION, childRegionType } from '@/utils/regions';
+import { isNetworkError } from '@/utils/network';
+import { EBirdAuthError } from '@/utils/ebird-client';
+import { BirdObservation, Hotspot } from '@/types/birds';
+import { EBirdRegion, EBirdTaxon } from '@/types/ebird';
+
+type RegionTab = 'subregions' | 'recent' | 'species' | 'hotspots';
+
+const TAB_LABELS: Record<RegionTab, string> = {
+  subregions: 'Areas',
+  recent: 'Recent',
+  species: 'Species',
+  hotspots: 'Hotspots',
+};
+
+// Hotspots listed per region - the full list for a state runs to thousands
+const TOP_HOTSPOTS = 25;
+
+const errorMessage = (err: unknown) => {
+  if (err instanceof EBirdAuthError) return err.message;
+  if (isNetworkError(err)) return "You're offline and this region hasn't been loaded before";
+  return 'Could not load this region';
+};
+
+export default function RegionsScreen() {
+  const router = useRouter();
+  const { searchRegion, setSearchRegion } = useBirdsStore();
+
+  // Breadcrumb trail from the world down to the region being viewed
+  const [path, setPath] = useState<EBirdRegion[]>([WORLD_REGION]);
+  const [tab, setTab] = useState<RegionTab>('subregions');
+  const [filterText, setFilterText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [subregions, setSubregions] = useState<EBirdRegion[]>([]);
+  const [recentBirds, setRecentBirds] = useState<BirdObservation[]>([]);
+  const [speciesTaxa, setSpeciesTaxa] = useState<EBirdTaxon[]>([]);
+  const [hotspots, setHotspots] = useState<Hotspot[]>([]);
+
+  const region = path[path.length - 1];
+  const childType = childRegionType(region.code);
+  const isWorld = region.code === WORLD_REGION.code;
+  const tabs = (['subregions', 'recent', 'species', 'hotspots'] as RegionTab[]).filter(option =>
+    option === 'subregions' ? childType !== null : !isWorld
+  );
+
+  // Load whatever the current tab shows for the current region
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        if (tab === 'subregions' && childType) {
+          const result = await fetchSubregions(childType, region.code);
+          if (!cancelled) setSubregions(result);
+        } else if (tab === 'recent') {
+          const result = await fetchRegionalBirds(region.code);
+          if (!cancelled) setRecentBirds(result.data);
+        } else if (tab === 'species') {
+          const result = await fetchRegionalSpeciesTaxa(region.code);
+          if (!cancelled) setSpeciesTaxa(result);
+        } else if (tab === 'hotspots') {
+          const result = await fetchRegionalHotspots(region.code);
+          const top = [...result.data]
+            .sort((a, b) => (b.numSpeciesAllTime || 0) - (a.numSpeciesAllTime || 0))
+            .slice(0, TOP_HOTSPOTS);
+          if (!cancelled) setHotspots(top);
+        }
+      } catch (err) {
+        console.error('Error loading region:', err);
+        if (!cancelled) setError(errorMessage(err));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [region.code, tab]);
+
+  const openRegion = (next: EBirdRegion) => {
+    setPath([...path, next]);
+    setFilterText('');
+    // Counties have no sub-areas, so open straight onto their sightings
+    setTab(childRegionType(next.code) ? 'subregions' : 'recent');
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const goToCrumb = (index: number) => {
+    const next = path.slice(0, index + 1);
+    setPath(next);
+    setFilterText('');
+    setTab(childRegionType(next[next.length - 1].code) ? 'subregions' : 'recent');
+  };
+
+  const handleUseRegion = () => {
+    setSearchRegion(region);
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    router.back();
+  };
+
+  const query = filterText.trim().toLowerCase();
+  const visibleSubregions = query
+    ? subregions.filter(subregion => subregion.name.toLowerCase().includes(query))
+    : subregions;
+  const visibleSpecies = query
+    ? speciesTaxa.filter(taxon => taxon.comName.toLowerCase().includes(query))
+    : speciesTaxa;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.loading} size="large" color="#2D3F1F" />;
+    }
+
+    if (error) {
+      return (
+        <View style={styles.statusRow}>
+          <AlertCircle size={16} color="#E63946" />
+          <Text style={[styles.statusText, styles.statusError]}>{error}</Text>
+        </View>
+      );
+    }
+
+    switch (tab) {
+      case 'subregions':
+        if (subregions.length === 0) {
+          return <Text style={styles.countText}>eBird doesn't divide {region.name} any further.</Text>;
+        }
+        return visibleSubregions.map(subregion => (
+          <Pressable
+            key={subregion.code}
+            style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+            onPress={() => openRegion(subregion)}
+          >
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{subregion.name}</Text>
+              <Text style={styles.rowSubtitle}>{subregion.code}</Text>
+            </View>
+            <ChevronRight size={18} color="#666" />
+          </Pressable>
+        ));
+      case 'recent':
+        return recentBirds.map(bird => (
+          <View key={`${bird.speciesCode}-${bird.obsDt}`} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{bird.comName}</Text>
+              <Text style={styles.rowSubtitle} numberOfLines={1}>
+                {bird.howMany ?? 'X'} · {new Date(bird.obsDt.replace(' ', 'T')).toLocaleDateString()} · {bird.locName}
+              </Text>
+            </View>
+          </View>
+        ));
+      case 'species':
+        return (
+          <>
+            <Text style={styles.countText}>
+              {speciesTaxa.length} species recorded in {region.name}
+            </Text>
+            {visibleSpecies.map(taxon => (
+              <View key={taxon.speciesCode} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{taxon.comName}</Text>
+                  <Text style={[styles.rowSubtitle, styles.sciName]}>{taxon.sciName}</Text>
+                </View>
+              </View>
+            ))}
+          </>
+        );
+      case 'hotspots':
+        return hotspots.map(hotspot => (
+          <View key={hotspot.locId} style={styles.row}>
+            <MapPin size={16} color="#2D3F1F" />
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{hotspot.locName}</Text>
+              {hotspot.numSpeciesAllTime !== undefined && (
+                <Text style={styles.rowSubtitle}>{hotspot.numSpeciesAllTime} species all time</Text>
+              )}
+            </View>
+          </View>
+        ));
+    }
+  };
+
+  const showFilter = tab === 'subregions' || tab === 'species';
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.breadcrumbs}>
+          {path.map((crumb, index) => (
+            <View key={crumb.code} style={styles.crumbItem}>
+              {index > 0 && <ChevronRight size={14} color="#666" />}
+              <Pressable onPress={() => goToCrumb(index)} disabled={index === path.length - 1}>
+                <Text style={[styles.crumbText, index === path.length - 1 && styles.crumbTextActive]}>
+                  {crumb.name}
+                </Text>
+              </Pressable>
+            </View>
+          ))}
+        </ScrollView>
+
+        {!isWorld && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Globe size={20} color="#2D3F1F" />
+              <Text style={styles.sectionTitle}>{region.name}</Text>
+            </View>
+            {searchRegion?.code === region.code ? (
+              <View style={styles.statusRow}>
+                <Check size={16} color="#2D8B4F" />
+                <Text style={[styles.statusText, styles.statusSuccess]}>Sightings are searching this region</Text>
+              </View>
+            ) : (
+              <Pressable
+                style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+                onPress={handleUseRegion}
+              >
+                <Text style={styles.primaryButtonText}>Search birds in this region</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          {tabs.length > 1 && (
+            <View style={styles.tabs}>
+              {tabs.map(option => (
+                <Pressable
+                  key={option}
+                  style={[styles.tab, tab === option && styles.tabSelected]}
+                  onPress={() => {
+                    setTab(option);
+                    setFilterText('');
+                  }}
+                >
+                  <Text style={[styles.tabText, tab === option && styles.tabTextSelected]}>
+                    {TAB_LABELS[option]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          {showFilter && (
+            <TextInput
+              style={styles.input}
+              value={filterText}
+              onChangeText={setFilterText}
+              placeholder={tab === 'species' ? 'Filter species' : 'Filter areas'}
+              placeholderTextColor="#999"
+              autoCorrect={false}
+            />
+          )}
+
+          {renderContent()}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  breadcrumbs: {
+    alignItems: 'center',
+    paddingBottom: 12,
+  },
+  crumbItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  crumbText: {
+    fontSize: 14,
+    color: '#3A5129',
+    textDecorationLine: 'underline',
+    paddingHorizontal: 4,
+  },
+  crumbTextActive: {
+    color: '#2D3F1F',
+    fontWeight: '600',
+    textDecorationLine: 'none',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#F5F6F3',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  tabSelected: {
+    backgroundColor: '#2D3F1F',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  tabTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  statusSuccess: {
+    color: '#2D8B4F',
+  },
+  statusError: {
+    color: '#E63946',
+  },
+  primaryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  countText: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  rowPressed: {
+    backgroundColor: '#F5F6F3',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  sciName: {
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,509 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView, TextInput, Linking, SafeAreaView, ActivityIndicator } from 'react-native';
+import { Check, AlertCircle, ExternalLink, Key, Database, Upload, Ruler } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { StatusBar } from 'expo-status-bar';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+import { usePersonalSightingsStore } from '@/hooks/use-personal-sightings-store';
+import { ebirdClient, getApiKey, fetchTaxonomy } from '@/utils/api';
+import { clearResponseCache } from '@/utils/response-cache';
+import { isNetworkError } from '@/utils/network';
+import { UnitSystem } from '@/utils/geo';
+import { pickTextFile, CSV_MIME_TYPES } from '@/utils/file-import';
+import {
+  parseEBirdDataCsv,
+  lookupFromObservations,
+  lookupFromTaxonomy,
+  unresolvedNames,
+  buildPersonalSightings,
+  lifeListFromSightings,
+} from '@/utils/ebird-import';
+
+const UNIT_OPTIONS: { label: string; value: UnitSystem }[] = [
+  { label: 'Miles', value: 'imperial' },
+  { label: 'Kilometers', value: 'metric' },
+];
+
+type KeyCheckStatus = 'idle' | 'checking' | 'valid' | 'invalid' | 'network-error';
+type ImportStatus = 'idle' | 'importing' | 'done' | 'error';
+
+export default function SettingsScreen() {
+  const { apiKeyOverride, setApiKeyOverride, setVerifiedApiKey, units, setUnits } = useSettingsStore();
+  const [apiKeyInput, setApiKeyInput] = useState(apiKeyOverride || '');
+  const [keyStatus, setKeyStatus] = useState<KeyCheckStatus>('idle');
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const { sightings, lastImportedAt, addSightings, clearSightings } = usePersonalSightingsStore();
+  const { importEntries } = useLifeListStore();
+  const [importStatus, setImportStatus] = useState<ImportStatus>('idle');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const saveApiKey = async () => {
+    const candidate = apiKeyInput.trim();
+    if (!candidate) return;
+
+    setKeyStatus('checking');
+
+    try {
+      const isValid = await ebirdClient.verifyApiKey(candidate);
+
+      if (!isValid) {
+        setKeyStatus('invalid');
+        if (Platform.OS !== 'web') {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        }
+        return;
+      }
+
+      setApiKeyOverride(candidate);
+      setVerifiedApiKey(candidate);
+      setKeyStatus('valid');
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (err) {
+      // Anything other than a rejected key means we couldn't check it
+      console.error('Error verifying API key:', err);
+      setKeyStatus('network-error');
+    }
+  };
+
+  const resetApiKey = () => {
+    setApiKeyOverride(null);
+    setVerifiedApiKey(null);
+    setApiKeyInput('');
+    setKeyStatus('idle');
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const clearCachedData = async () => {
+    try {
+      await clearResponseCache();
+      setCacheCleared(true);
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (err) {
+      console.error('Error clearing response cache:', err);
+    }
+  };
+
+  const importEBirdData = async (csvText: string) => {
+    setImportStatus('importing');
+    setImportMessage(null);
+
+    try {
+      const rows = parseEBirdDataCsv(csvText);
+
+      // Species already in the app cover small imports; otherwise use the full taxonomy
+      const { observations, notableBirds } = useBirdsStore.getState();
+      let lookup = lookupFromObservations([...observations, ...notableBirds, ...sightings]);
+      if (unresolvedNames(rows, lookup).length > 0) {
+        try {
+          lookup = lookupFromTaxonomy(await fetchTaxonomy());
+        } catch (err) {
+          // Offline - import what we can match and report the rest
+          if (!isNetworkError(err)) throw err;
+        }
+      }
+
+      const result = buildPersonalSightings(rows, lookup);
+      const countBefore = usePersonalSightingsStore.getState().sightings.length;
+      addSightings(result.sightings);
+      const added = usePersonalSightingsStore.getState().sightings.length - countBefore;
+
+      const lifeListEntries = lifeListFromSightings(result.sightings, lookup);
+      importEntries(lifeListEntries);
+
+      setImportStatus('done');
+      setImportMessage(
+        `Imported ${added} new sightings (${lifeListEntries.length} species on your life list).` +
+        (result.unmatchedNames.length > 0
+          ? ` ${result.unmatchedNames.length} names weren't recognised and were skipped.`
+          : '')
+      );
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (err) {
+      console.error('Error importing eBird data:', err);
+      setImportStatus('error');
+      setImportMessage(err instanceof Error ? err.message : 'Could not import the file');
+    }
+  };
+
+  const chooseImportFile = async () => {
+    try {
+      const csvText = await pickTextFile(CSV_MIME_TYPES);
+      if (csvText) {
+        importEBirdData(csvText);
+      }
+    } catch (err) {
+      console.error('Error reading eBird data file:', err);
+      setImportStatus('error');
+      setImportMessage('Could not read the file');
+    }
+  };
+
+  const clearImportedSightings = () => {
+    clearSightings();
+    setImportStatus('idle');
+    setImportMessage(null);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const openKeyRequestPage = () => {
+    Linking.openURL('https://ebird.org/api/keygen');
+  };
+
+  const usingDefaultKey = !apiKeyOverride;
+  const hasAnyKey = !!getApiKey();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Key size={18} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>eBird API key</Text>
+          </View>
+          <Text style={styles.sectionDescription}>
+            Fledgling loads sightings and hotspots from eBird. You can use your own
+            personal API key instead of the one bundled with the app.
+          </Text>
+
+          <Text style={styles.currentKeyText}>
+            {usingDefaultKey
+              ? hasAnyKey ? 'Currently using the app default key' : 'No API key configured'
+              : 'Currently using your own key'}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={apiKeyInput}
+            onChangeText={(text) => {
+              setApiKeyInput(text);
+              setKeyStatus('idle');
+            }}
+            placeholder="Paste your eBird API key"
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry={true}
+          />
+
+          {keyStatus === 'checking' && (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#2D3F1F" />
+              <Text style={styles.statusText}>Checking key with eBird...</Text>
+            </View>
+          )}
+          {keyStatus === 'valid' && (
+            <View style={styles.statusRow}>
+              <Check size={16} color="#2D8B4F" />
+              <Text style={[styles.statusText, styles.statusSuccess]}>Key saved and verified</Text>
+            </View>
+          )}
+          {keyStatus === 'invalid' && (
+            <View style={styles.statusRow}>
+              <AlertCircle size={16} color="#E63946" />
+              <Text style={[styles.statusText, styles.statusError]}>
+                Invalid key - eBird rejected it. Check for typos and try again.
+              </Text>
+            </View>
+          )}
+          {keyStatus === 'network-error' && (
+            <View style={styles.statusRow}>
+              <AlertCircle size={16} color="#F9A825" />
+              <Text style={styles.statusText}>
+                Couldn't reach eBird to check the key. Try again when you're online.
+              </Text>
+            </View>
+          )}
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.primaryButton,
+              (!apiKeyInput.trim() || keyStatus === 'checking') && styles.buttonDisabled,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={saveApiKey}
+            disabled={!apiKeyInput.trim() || keyStatus === 'checking'}
+          >
+            <Text style={styles.primaryButtonText}>Save & Verify</Text>
+          </Pressable>
+
+          {!usingDefaultKey && (
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+              onPress={resetApiKey}
+            >
+              <Text style={styles.secondaryButtonText}>Use Default Key</Text>
+            </Pressable>
+          )}
+
+          <Pressable style={styles.linkRow} onPress={openKeyRequestPage}>
+            <ExternalLink size={14} color="#2D3F1F" />
+            <Text style={styles.linkText}>Request a free key from eBird</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Upload size={18} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>Your eBird data</Text>
+          </View>
+          <Text style={styles.sectionDescription}>
+            Import the CSV from eBird's "Download My Data" page to fill your life list
+            with your own sightings.
+          </Text>
+
+          <Text style={styles.currentKeyText}>
+            {sightings.length > 0
+              ? `${sightings.length} sightings imported${lastImportedAt ? `, last on ${new Date(lastImportedAt).toLocaleDateString()}` : ''}`
+              : 'No sightings imported yet'}
+          </Text>
+
+          {importStatus === 'importing' && (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#2D3F1F" />
+              <Text style={styles.statusText}>Importing sightings...</Text>
+            </View>
+          )}
+          {importStatus === 'done' && importMessage && (
+            <View style={styles.statusRow}>
+              <Check size={16} color="#2D8B4F" />
+              <Text style={[styles.statusText, styles.statusSuccess]}>{importMessage}</Text>
+            </View>
+          )}
+          {importStatus === 'error' && importMessage && (
+            <View style={styles.statusRow}>
+              <AlertCircle size={16} color="#E63946" />
+              <Text style={[styles.statusText, styles.statusError]}>{importMessage}</Text>
+            </View>
+          )}
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.primaryButton,
+              importStatus === 'importing' && styles.buttonDisabled,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={chooseImportFile}
+            disabled={importStatus === 'importing'}
+          >
+            <Text style={styles.primaryButtonText}>Choose CSV File</Text>
+          </Pressable>
+
+          {sightings.length > 0 && (
+            <Pressable
+              style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+              onPress={clearImportedSightings}
+            >
+              <Text style={styles.secondaryButtonText}>Remove Imported Sightings</Text>
+            </Pressable>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Ruler size={18} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>Units</Text>
+          </View>
+          <Text style={styles.sectionDescription}>
+            Used for search radii and distances to sightings, hotspots and trip stops.
+          </Text>
+
+          <View style={styles.unitOptions}>
+            {UNIT_OPTIONS.map(option => (
+              <Pressable
+                key={option.value}
+                style={[styles.unitOption, units === option.value && styles.unitOptionSelected]}
+                onPress={() => {
+                  setUnits(option.value);
+                  if (Platform.OS !== 'web') {
+                    Haptics.selectionAsync();
+                  }
+                }}
+              >
+                <Text style={[styles.unitOptionText, units === option.value && styles.unitOptionTextSelected]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Database size={18} color="#2D3F1F" />
+            <Text style={styles.sectionTitle}>Cached data</Text>
+          </View>
+          <Text style={styles.sectionDescription}>
+            Sightings and hotspots are saved on your device so the app opens instantly.
+            Clear them to force fresh data from eBird on the next load.
+          </Text>
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.secondaryButton,
+              cacheCleared && styles.buttonDisabled,
+              pressed && styles.buttonPressed,
+            ]}
+            onPress={clearCachedData}
+            disabled={cacheCleared}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {cacheCleared ? 'Cache Cleared' : 'Clear Cached Data'}
+            </Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  unitOptions: {
+    flexDirection: 'row',
+    backgroundColor: '#F5F6F3',
+    borderRadius: 8,
+    padding: 4,
+  },
+  unitOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  unitOptionSelected: {
+    backgroundColor: '#2D3F1F',
+  },
+  unitOptionText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  unitOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  currentKeyText: {
+    fontSize: 13,
+    color: '#2D3F1F',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  statusSuccess: {
+    color: '#2D8B4F',
+  },
+  statusError: {
+    color: '#E63946',
+  },
+  primaryButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+  },
+  secondaryButtonText: {
+    color: '#2D3F1F',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    textDecorationLine: 'underline',
+  },
+});
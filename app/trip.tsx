@@ -0,0 +1,500 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, SafeAreaView, ActivityIndicator, TextInput, Platform, Linking, Dimensions } from 'react-native';
+import { AlertCircle, Bird, Navigation, Route, Trash2, X, Save } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { useTripsStore } from '@/hooks/use-trips-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchHotspotsRecentBirds } from '@/utils/api';
+import { planRoute, describeRoute, expectedTripSpecies, routeDirections } from '@/utils/trip-planner';
+import { distanceKm, milesToKm, formatDistance } from '@/utils/geo';
+import { zoomForRadius } from '@/utils/map-tiles';
+import { shareTextFile } from '@/utils/file-export';
+import { buildGeoExport, hotspotPoints, GeoExportFormat } from '@/utils/geo-export';
+import { TileMap, MapMarker } from '@/components/TileMap';
+import { GeoExportButtons } from '@/components/GeoExportButtons';
+import { Hotspot, TripPlan } from '@/types/birds';
+
+const fileDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+const { width } = Dimensions.get('window');
+
+// With no params this lists saved trips; `locIds` plans a new trip, `tripId` opens a saved one
+export default function TripScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ locIds?: string; tripId?: string }>();
+  const { hotspots, location, searchRegion, searchCenter } = useBirdsStore();
+  const recencyDecayPerDay = useScoringStore((state) => state.config.recencyDecayPerDay);
+  const { trips, saveTrip, removeTrip } = useTripsStore();
+  const units = useSettingsStore((state) => state.units);
+
+  const savedTrip = params.tripId ? trips.find(trip => trip.id === params.tripId) || null : null;
+
+  // Stops picked on the hotspots screen, minus any removed here
+  const [stopIds, setStopIds] = useState<string[]>(params.locIds ? params.locIds.split(',') : []);
+  const [expectedSpecies, setExpectedSpecies] = useState<number | null>(null);
+  const [isLoadingSpecies, setIsLoadingSpecies] = useState(false);
+  const [tripName, setTripName] = useState('');
+  const [savedId, setSavedId] = useState<string | null>(null);
+
+  // New trips set off from the user, or from the middle of the searched region without GPS
+  const origin = location ?? (searchRegion ? searchCenter : null);
+  const start = savedTrip ? savedTrip.start : origin;
+  const route = useMemo(() => {
+    if (savedTrip) return describeRoute(savedTrip.start, savedTrip.stops);
+    if (!origin) return null;
+    return planRoute(origin, hotspots.filter(hotspot => stopIds.includes(hotspot.locId)));
+  }, [savedTrip, origin?.latitude, origin?.longitude, hotspots, stopIds]);
+
+  const stopKey = route ? route.stops.map(stop => stop.locId).join(',') : '';
+
+  // Combined species from every stop's recent reports
+  useEffect(() => {
+    if (!route || route.stops.length === 0) {
+      setExpectedSpecies(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingSpecies(true);
+    fetchHotspotsRecentBirds(route.stops.map(stop => stop.locId))
+      .then(observations => {
+        if (!cancelled) setExpectedSpecies(expectedTripSpecies(observations, recencyDecayPerDay));
+      })
+      .catch(error => {
+        console.error('Error loading trip species:', error);
+        // A saved trip still has the estimate from when it was planned
+        if (!cancelled) setExpectedSpecies(savedTrip?.expectedSpecies ?? null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSpecies(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stopKey, recencyDecayPerDay]);
+
+  const removeStop = (locId: string) => {
+    setStopIds(stopIds.filter(id => id !== locId));
+    setSavedId(null);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const handleSave = () => {
+    if (!route || !start) return;
+
+    const trip = saveTrip({
+      name: tripName,
+      start,
+      stops: route.stops,
+      totalMiles: route.totalMiles,
+      expectedSpecies,
+    });
+    setSavedId(trip.id);
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!savedTrip) return;
+    removeTrip(savedTrip.id);
+    router.back();
+  };
+
+  const openDirections = (url: string) => {
+    if (Platform.OS === 'web') {
+      window.open(url, '_blank');
+    } else {
+      Linking.openURL(url);
+    }
+  };
+
+  // The route as a GPS track: start point, then each stop in order
+  const exportRoute = (format: GeoExportFormat) => {
+    if (!route || !start) return;
+
+    const title = savedTrip?.name || tripName.trim() || 'Birding trip';
+    const { filename, contents, mimeType } = buildGeoExport(
+      `trip-${fileDate(savedTrip?.createdAt ?? Date.now())}`,
+      title,
+      [{ name: 'Start', latitude: start.latitude, longitude: start.longitude }, ...hotspotPoints(route.stops)],
+      format,
+      true
+    );
+    shareTextFile(filename, contents, mimeType).catch(err => console.error('Error exporting trip:', err));
+  };
+
+  const openTrip = (trip: TripPlan) => {
+    router.push({ pathname: '/trip', params: { tripId: trip.id } });
+  };
+
+  // Saved trips list
+  if (!params.locIds && !params.tripId) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="dark" />
+        <Stack.Screen options={{ headerTitle: 'Saved Trips' }} />
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          {trips.length === 0 ? (
+            <View style={styles.centered}>
+              <Route size={40} color="#666" />
+              <Text style={styles.emptyText}>
+                No saved trips yet. Select hotspots on the Hotspots screen to plan one.
+              </Text>
+            </View>
+          ) : (
+            trips.map(trip => (
+              <Pressable
+                key={trip.id}
+                style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+                onPress={() => openTrip(trip)}
+              >
+                <View style={styles.tripRow}>
+                  <View style={styles.tripInfo}>
+                    <Text style={styles.tripName}>{trip.name}</Text>
+                    <Text style={styles.tripMeta}>
+                      {new Date(trip.createdAt).toLocaleDateString()} · {trip.stops.length} stops · {formatDistance(milesToKm(trip.totalMiles), units)}
+                      {trip.expectedSpecies !== null ? ` · ~${Math.round(trip.expectedSpecies)} species` : ''}
+                    </Text>
+                  </View>
+                  <Pressable onPress={() => removeTrip(trip.id)} hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+                    <Trash2 size={18} color="#666" />
+                  </Pressable>
+                </View>
+              </Pressable>
+            ))
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  if (!route || !start || (params.tripId && !savedTrip)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <AlertCircle size={40} color="#666" />
+          <Text style={styles.emptyText}>
+            {params.tripId ? 'This trip has been deleted.' : 'Waiting for your location...'}
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Maps only takes so many stops at once, so long trips open in parts
+  const directions = routeDirections(start, route.stops);
+
+  // Fit the whole route on the map
+  const farthestKm = Math.max(1, ...route.stops.map(stop => distanceKm(start.latitude, start.longitude, stop.lat, stop.lng)));
+  const markers: MapMarker[] = [
+    { id: 'start', latitude: start.latitude, longitude: start.longitude, color: '#3A6EA5' },
+    ...route.stops.map((stop, index) => ({
+      id: stop.locId,
+      latitude: stop.lat,
+      longitude: stop.lng,
+      color: '#2D3F1F',
+      count: index + 1,
+    })),
+  ];
+
+  const renderStop = (stop: Hotspot, index: number) => (
+    <View key={stop.locId} style={styles.stopRow}>
+      <View style={styles.stopNumber}>
+        <Text style={styles.stopNumberText}>{index + 1}</Text>
+      </View>
+      <View style={styles.stopInfo}>
+        <Text style={styles.stopName}>{stop.locName}</Text>
+        <Text style={styles.stopMeta}>
+          {formatDistance(milesToKm(route.legMiles[index]), units)} from {index === 0 ? 'start' : 'previous stop'}
+          {stop.numSpeciesAllTime ? ` · ${stop.numSpeciesAllTime} species all time` : ''}
+        </Text>
+      </View>
+      {!savedTrip && (
+        <Pressable onPress={() => removeStop(stop.locId)} hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+          <X size={18} color="#666" />
+        </Pressable>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      <Stack.Screen options={{ headerTitle: savedTrip ? savedTrip.name : 'Plan a Trip' }} />
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.summary}>
+          <View style={styles.summaryItem}>
+            <Route size={16} color="#2D3F1F" />
+            <Text style={styles.summaryText}>
+              {route.stops.length} stops · {formatDistance(milesToKm(route.totalMiles), units)}
+            </Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Bird size={16} color="#2D3F1F" />
+            {isLoadingSpecies ? (
+              <ActivityIndicator size="small" color="#2D3F1F" />
+            ) : (
+              <Text style={styles.summaryText}>
+                {expectedSpecies !== null ? `~${Math.round(expectedSpecies)} species expected` : 'Species estimate unavailable'}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {route.stops.length > 0 && (
+          <View style={styles.mapContainer}>
+            <TileMap
+              center={start}
+              zoom={zoomForRadius(start.latitude, farthestKm, width - 32)}
+              markers={markers}
+              height={300}
+            />
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.stopRow}>
+            <View style={[styles.stopNumber, styles.startNumber]}>
+              <Navigation size={12} color="#FFFFFF" />
+            </View>
+            <Text style={styles.stopName}>Start</Text>
+          </View>
+          {route.stops.map(renderStop)}
+          {route.stops.length === 0 && (
+            <Text style={styles.emptyText}>No stops left on this trip.</Text>
+          )}
+        </View>
+
+        {directions.map(leg => (
+          <Pressable
+            key={leg.firstStop}
+            style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]}
+            onPress={() => openDirections(leg.url)}
+          >
+            <Navigation size={18} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>
+              {directions.length === 1
+                ? 'Open route in Maps'
+                : `Open stops ${leg.firstStop + 1}-${leg.lastStop + 1} in Maps`}
+            </Text>
+          </Pressable>
+        ))}
+
+        {route.stops.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Export route</Text>
+            <GeoExportButtons onExport={exportRoute} />
+          </View>
+        )}
+
+        {savedTrip ? (
+          <Pressable style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]} onPress={handleDelete}>
+            <Trash2 size={18} color="#E63946" />
+            <Text style={styles.deleteButtonText}>Delete trip</Text>
+          </Pressable>
+        ) : route.stops.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Save this trip</Text>
+            <TextInput
+              style={styles.input}
+              value={tripName}
+              onChangeText={(name) => {
+                setTripName(name);
+                setSavedId(null);
+              }}
+              placeholder="Trip name"
+              placeholderTextColor="#999"
+            />
+            {savedId ? (
+              <Pressable onPress={() => router.push('/trip')}>
+                <Text style={styles.savedText}>Saved · View saved trips</Text>
+              </Pressable>
+            ) : (
+              <Pressable style={({ pressed }) => [styles.primaryButton, pressed && styles.buttonPressed]} onPress={handleSave}>
+                <Save size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>Save trip</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F6F3',
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    padding: 8,
+  },
+  summary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  summaryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  mapContainer: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    padding: 16,
+  },
+  cardPressed: {
+    backgroundColor: '#F0F0F0',
+  },
+  tripRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tripInfo: {
+    flex: 1,
+  },
+  tripName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  tripMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F5F6F3',
+  },
+  stopNumber: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#2D3F1F',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  startNumber: {
+    backgroundColor: '#3A6EA5',
+  },
+  stopNumberText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopName: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  stopMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 4,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2D3F1F',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    padding: 12,
+    borderRadius: 8,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    color: '#E63946',
+    fontWeight: '600',
+  },
+  savedText: {
+    fontSize: 14,
+    color: '#2D8B4F',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
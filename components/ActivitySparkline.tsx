@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Clock } from 'lucide-react-native';
+import { formatHour, SpeciesActivity } from '@/utils/activity-model';
+
+interface ActivitySparklineProps {
+  activity: SpeciesActivity;
+  highlightHour: number;
+  factor?: number; // multiplier applied to the likelihood for highlightHour
+}
+
+const AXIS_LABELS = [0, 6, 12, 18];
+
+export function ActivitySparkline({ activity, highlightHour, factor }: ActivitySparklineProps) {
+  const { rates, reports, checklists } = activity;
+  const max = Math.max(...rates) || 1;
+  const peakHour = rates.indexOf(Math.max(...rates));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Clock size={16} color="#2D3F1F" />
+        <Text style={styles.title}>Activity by time of day</Text>
+      </View>
+
+      <View style={styles.chart}>
+        {rates.map((rate, hour) => (
+          <View key={hour} style={styles.barSlot}>
+            <View
+              style={[
+                styles.bar,
+                { height: `${Math.max(4, (rate / max) * 100)}%` },
+                hour === highlightHour && styles.barHighlighted,
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.axis}>
+        {AXIS_LABELS.map(hour => (
+          <Text key={hour} style={[styles.axisLabel, { left: `${(hour / 24) * 100}%` }]}>
+            {formatHour(hour)}
+          </Text>
+        ))}
+      </View>
+
+      <Text style={styles.summary}>
+        Most often reported around {formatHour(peakHour)} (on {reports} of {checklists} recent local checklists).
+        {factor !== undefined && factor !== 1
+          ? ` Likelihood ${factor > 1 ? 'raised' : 'lowered'} ${Math.round(Math.abs(factor - 1) * 100)}% for ${formatHour(highlightHour)}.`
+          : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F5F6F3',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2D3F1F',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 40,
+    gap: 2,
+  },
+  barSlot: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderRadius: 2,
+    backgroundColor: '#B8C2AE',
+  },
+  barHighlighted: {
+    backgroundColor: '#2D3F1F',
+  },
+  axis: {
+    height: 14,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  axisLabel: {
+    position: 'absolute',
+    fontSize: 10,
+    color: '#666',
+  },
+  summary: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
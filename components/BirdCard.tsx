@@ -4,8 +4,11 @@ import { Image } from 'expo-image';
 import * as Haptics from 'expo-haptics';
 import { BirdObservation } from '@/types/birds';
 import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { formatDistance } from '@/utils/geo';
 import { BirdDetailsModal } from './BirdDetailsModal';
-import { Calendar, Eye } from 'lucide-react-native';
+import { Calendar, CalendarClock, Eye, MapPin, Sparkles, Star } from 'lucide-react-native';
 
 interface BirdCardProps {
   bird: BirdObservation;
@@ -15,6 +18,11 @@ interface BirdCardProps {
 export const BirdCard = memo(({ bird }: BirdCardProps) => {
   const [detailsModalVisible, setDetailsModalVisible] = useState(false);
   const { birdImages } = useBirdsStore();
+  const lifeList = useLifeListStore((state) => state.entries);
+  const units = useSettingsStore((state) => state.units);
+  
+  // A potential lifer is any species missing from a life list the user has started
+  const isLifer = Object.keys(lifeList).length > 0 && !lifeList[bird.speciesCode];
   const scaleAnim = useRef(new Animated.Value(1)).current;
   
   // Get the bird images array or use an empty array if none exist
@@ -59,6 +67,9 @@ export const BirdCard = memo(({ bird }: BirdCardProps) => {
   const likelihood = isNaN(bird.likelihood) ? 0 : bird.likelihood;
   const likelihoodColor = getLikelihoodColor(likelihood);
 
+  // Distance to the closest report of this species
+  const nearestKm = bird.likelihoodBreakdown?.nearestDistanceKm;
+
   return (
     <>
       <Animated.View style={[
@@ -66,7 +77,7 @@ export const BirdCard = memo(({ bird }: BirdCardProps) => {
         { transform: [{ scale: scaleAnim }] }
       ]}>
         <Pressable 
-          style={styles.card}
+          style={[styles.card, isLifer && styles.cardLifer]}
           onPress={openDetailsModal}
           onPressIn={handlePressIn}
           onPressOut={handlePressOut}
@@ -81,6 +92,24 @@ export const BirdCard = memo(({ bird }: BirdCardProps) => {
               placeholder={Platform.OS === 'web' ? undefined : { color: '#E1E2DE' }}
               cachePolicy="memory-disk"
             />
+            {bird.isNotable && (
+              <View style={styles.rareBadge}>
+                <Sparkles size={10} color="#FFFFFF" />
+                <Text style={styles.rareBadgeText}>Rare</Text>
+              </View>
+            )}
+            {bird.isExpected && (
+              <View style={[styles.rareBadge, styles.expectedBadge]}>
+                <CalendarClock size={10} color="#FFFFFF" />
+                <Text style={styles.rareBadgeText}>Expected</Text>
+              </View>
+            )}
+            {isLifer && (
+              <View style={styles.liferBadge}>
+                <Star size={10} color="#FFFFFF" />
+                <Text style={styles.rareBadgeText}>Lifer</Text>
+              </View>
+            )}
           </View>
           
           <View style={styles.textContent}>
@@ -92,11 +121,21 @@ export const BirdCard = memo(({ bird }: BirdCardProps) => {
             </Text>
             
             <View style={styles.statsContainer}>
-              <View style={styles.statItem}>
-                <Calendar size={14} color="#666" />
-                <Text style={styles.statText}>
-                  {new Date(bird.obsDt).toLocaleDateString()}
-                </Text>
+              <View style={styles.statsGroup}>
+                <View style={styles.statItem}>
+                  <Calendar size={14} color="#666" />
+                  <Text style={styles.statText}>
+                    {bird.isExpected ? 'Not reported yet' : new Date(bird.obsDt).toLocaleDateString()}
+                  </Text>
+                </View>
+                {typeof nearestKm === 'number' && (
+                  <View style={styles.statItem}>
+                    <MapPin size={14} color="#666" />
+                    <Text style={styles.statText}>
+                      {formatDistance(nearestKm, units)}
+                    </Text>
+                  </View>
+                )}
               </View>
               
               <View style={styles.likelihoodContainer}>
@@ -141,6 +180,10 @@ const styles = StyleSheet.create({
     elevation: 3,
     flexDirection: 'row',
   },
+  cardLifer: {
+    borderWidth: 2,
+    borderColor: '#D4A017',
+  },
   imageContainer: {
     width: 110,
     height: 110,
@@ -151,6 +194,38 @@ const styles = StyleSheet.create({
     height: '100%',
     backgroundColor: '#F5F6F3',
   },
+  rareBadge: {
+    position: 'absolute',
+    top: 6,
+    left: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    backgroundColor: '#8E44AD',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  liferBadge: {
+    position: 'absolute',
+    bottom: 6,
+    left: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    backgroundColor: '#D4A017',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  expectedBadge: {
+    backgroundColor: '#3A6EA5',
+  },
+  rareBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
   textContent: {
     flex: 1,
     padding: 16,
@@ -173,6 +248,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  statsGroup: {
+    flexShrink: 1,
+    gap: 2,
+  },
   statItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,14 +1,21 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { Modal, View, Text, StyleSheet, Pressable, Platform, ScrollView, Linking, ActivityIndicator, Share } from 'react-native';
 import { Image } from 'expo-image';
 import { X, ExternalLink, MapPin, Calendar, Info, Eye, Volume2, Share2, ChevronLeft, ChevronRight, Feather, Ruler, AlertTriangle } from 'lucide-react-native';
 import { StatusBar } from 'expo-status-bar';
 import * as Haptics from 'expo-haptics';
-import { BirdObservation } from '@/types/birds';
+import { BirdObservation, BirdInfo, BirdAudioRecording } from '@/types/birds';
 import { fetchBirdInfo } from '@/utils/bird-info';
 import { fetchBirdAudio } from '@/utils/bird-audio';
 import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { speciesActivity } from '@/utils/activity-model';
 import { AudioPlayer } from './AudioPlayer';
+import { OfflineBanner } from './OfflineBanner';
+import { SpeciesFinder } from './SpeciesFinder';
+import { ActivitySparkline } from './ActivitySparkline';
+import { LifeListSection } from './LifeListSection';
+import { ScoreBreakdown } from './ScoreBreakdown';
 import { getBirdIdentificationInfo } from '@/data/bird-identification';
 
 interface BirdDetailsModalProps {
@@ -19,13 +26,14 @@ interface BirdDetailsModalProps {
 }
 
 export function BirdDetailsModal({ visible, bird, imageUrl, onClose }: BirdDetailsModalProps) {
-  const [birdInfo, setBirdInfo] = useState<any>(null);
-  const [birdAudio, setBirdAudio] = useState<any[]>([]);
+  const [birdInfo, setBirdInfo] = useState<BirdInfo | null>(null);
+  const [birdAudio, setBirdAudio] = useState<BirdAudioRecording[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingAudio, setLoadingAudio] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const { birdImages } = useBirdsStore();
+  const { birdImages, isOffline, addBirdInfo, addBirdAudio, activityProfiles } = useBirdsStore();
+  const { activityEnabled, plannedHour } = useScoringStore();
   
   // Get identification info for this bird
   const identificationInfo = getBirdIdentificationInfo(bird.speciesCode);
@@ -69,12 +77,26 @@ export function BirdDetailsModal({ visible, bird, imageUrl, onClose }: BirdDetai
   const loadBirdInfo = async () => {
     if (!bird) return;
     
+    // Info saved from an earlier visit, used when we're offline
+    const savedInfo = useBirdsStore.getState().birdInfo[bird.speciesCode];
+    if (isOffline && savedInfo) {
+      setBirdInfo(savedInfo);
+      return;
+    }
+    
     setLoading(true);
     setError(null);
     
     try {
       const info = await fetchBirdInfo(bird.sciName, bird.comName);
-      setBirdInfo(info);
+      
+      // fetchBirdInfo swallows network errors, so only keep results with real content
+      if (info?.description) {
+        addBirdInfo({ [bird.speciesCode]: info });
+        setBirdInfo(info);
+      } else {
+        setBirdInfo(savedInfo || info);
+      }
     } catch (err) {
       console.error('Error loading bird info:', err);
       setError('Could not load additional information');
@@ -86,11 +108,23 @@ export function BirdDetailsModal({ visible, bird, imageUrl, onClose }: BirdDetai
   const loadBirdAudio = async () => {
     if (!bird) return;
     
+    const savedAudio = useBirdsStore.getState().birdAudio[bird.speciesCode];
+    if (isOffline && savedAudio) {
+      setBirdAudio(savedAudio);
+      return;
+    }
+    
     setLoadingAudio(true);
     
     try {
       const audioData = await fetchBirdAudio(bird.sciName);
-      setBirdAudio(audioData);
+      
+      if (audioData.length > 0) {
+        addBirdAudio({ [bird.speciesCode]: audioData });
+        setBirdAudio(audioData);
+      } else {
+        setBirdAudio(savedAudio || []);
+      }
     } catch (err) {
       console.error('Error loading bird audio:', err);
       // Don't set error state for audio - we'll just show no audio available
@@ -219,6 +253,12 @@ ${url}`,
   const likelihoodColor = getLikelihoodColor(likelihood);
   const likelihoodLabel = getLikelihoodLabel(likelihood);
 
+  // Hour-of-day detection rates from recent local checklists, once they've been loaded
+  const activity = useMemo(
+    () => speciesActivity(activityProfiles, bird.speciesCode),
+    [activityProfiles, bird.speciesCode]
+  );
+
   return (
     <Modal
       visible={visible}
@@ -250,6 +290,8 @@ ${url}`,
             </Pressable>
           </View>
           
+          {isOffline && <OfflineBanner message="Showing saved species details" />}
+          
           <ScrollView style={styles.scrollContent} contentContainerStyle={styles.scrollContentContainer}>
             <View style={styles.imageSection}>
               <Image
@@ -314,6 +356,27 @@ ${url}`,
                 </View>
               </View>
               
+              {bird.likelihoodBreakdown && (
+                <ScoreBreakdown breakdown={bird.likelihoodBreakdown} />
+              )}
+              
+              {activity && (
+                <ActivitySparkline
+                  activity={activity}
+                  highlightHour={activityEnabled && plannedHour !== null ? plannedHour : new Date().getHours()}
+                  factor={activityEnabled ? bird.activityFactor : undefined}
+                />
+              )}
+              
+              {typeof bird.seasonalFrequency === 'number' && (
+                <Text style={styles.seasonalNote}>
+                  {bird.isExpected
+                    ? 'Usually around at this time of year, but not reported nearby in the last 30 days. '
+                    : ''}
+                  Reported on {Math.round(bird.seasonalFrequency * 100)}% of sampled days in these weeks over the past years.
+                </Text>
+              )}
+              
               {/* Identification Guide Section */}
               {identificationInfo && (
                 <View style={styles.identificationSection}>
@@ -484,6 +547,12 @@ ${url}`,
                 </Pressable>
               </View>
               
+              {/* Life list */}
+              <LifeListSection bird={bird} />
+              
+              {/* Target species finder */}
+              <SpeciesFinder bird={bird} />
+              
               {/* Bird Calls Section */}
               <View style={styles.callsSection}>
                 <Text style={styles.sectionTitle}>Bird Calls</Text>
@@ -722,6 +791,12 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.9)',
   },
   // Identification Guide Styles
+  seasonalNote: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+    marginBottom: 16,
+  },
   identificationSection: {
     marginTop: 10,
     marginBottom: 20,
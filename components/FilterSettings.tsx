@@ -1,9 +1,12 @@
 import React from 'react';
-import { View, Text, StyleSheet, Pressable, Platform, ScrollView } from 'react-native';
-import { X, ArrowDown, ArrowUp, Check } from 'lucide-react-native';
+import { View, Text, StyleSheet, Pressable, Platform, ScrollView, Switch } from 'react-native';
+import { X, ArrowDown, ArrowUp, Check, Minus, Plus } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { useFilterStore, SortOption, SortDirection } from '@/hooks/use-filter-store';
 import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { SCORING_PRESETS, ScoringWeights } from '@/utils/bird-scoring';
+import { formatHour } from '@/utils/activity-model';
 import { LinearGradient } from 'expo-linear-gradient';
 
 interface FilterSettingsProps {
@@ -38,8 +41,30 @@ const SORT_OPTIONS: SortOptionItem[] = [
     label: 'Report date',
     description: 'Sort by most recent sightings'
   },
+  { 
+    value: 'lifers', 
+    label: 'Lifers first',
+    description: 'Species not on your life list, then by likelihood'
+  },
 ];
 
+interface WeightItem {
+  key: keyof ScoringWeights;
+  label: string;
+}
+
+const WEIGHT_ITEMS: WeightItem[] = [
+  { key: 'frequency', label: 'Frequency' },
+  { key: 'recency', label: 'Recency' },
+  { key: 'volume', label: 'Flock size' },
+  { key: 'consistency', label: 'Consistency' },
+  { key: 'distance', label: 'Distance' },
+];
+
+const WEIGHT_STEP = 5;
+const DECAY_STEP = 0.05;
+const SEASONAL_STEP = 0.1;
+
 const RESULTS_LIMIT_OPTIONS: ResultsLimitItem[] = [
   { value: 10, label: '10 birds' },
   { value: 25, label: '25 birds' },
@@ -50,6 +75,21 @@ const RESULTS_LIMIT_OPTIONS: ResultsLimitItem[] = [
 export function FilterSettings({ onClose, showResultsLimit = false }: FilterSettingsProps) {
   const { sortBy, sortDirection, setSortBy, setSortDirection, resetFilters } = useFilterStore();
   const { resultsLimit, setResultsLimit } = useBirdsStore();
+  const {
+    config: scoringConfig,
+    presetId,
+    seasonalEnabled,
+    activityEnabled,
+    plannedHour,
+    applyPreset,
+    setWeight,
+    setRecencyDecay,
+    setSeasonalWeight,
+    setSeasonalEnabled,
+    setActivityEnabled,
+    setPlannedHour,
+    resetScoring,
+  } = useScoringStore();
 
   const handleSortOptionSelect = (option: SortOption) => {
     setSortBy(option);
@@ -75,8 +115,68 @@ export function FilterSettings({ onClose, showResultsLimit = false }: FilterSett
     }
   };
 
+  const handlePresetSelect = (id: string) => {
+    applyPreset(id);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const adjustWeight = (key: keyof ScoringWeights, delta: number) => {
+    setWeight(key, scoringConfig.weights[key] + delta);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const adjustDecay = (delta: number) => {
+    // Round to avoid floating point drift from repeated steps
+    setRecencyDecay(Math.round((scoringConfig.recencyDecayPerDay + delta) * 100) / 100);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const adjustSeasonalWeight = (delta: number) => {
+    setSeasonalWeight(Math.round((scoringConfig.seasonalWeight + delta) * 10) / 10);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const toggleSeasonal = (enabled: boolean) => {
+    setSeasonalEnabled(enabled);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const toggleActivity = (enabled: boolean) => {
+    setActivityEnabled(enabled);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  // Step through the day from the current hour; "Now" follows the clock
+  const adjustPlannedHour = (delta: number) => {
+    const fromHour = plannedHour ?? new Date().getHours();
+    setPlannedHour((fromHour + delta + 24) % 24);
+    
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
   const handleReset = () => {
     resetFilters();
+    resetScoring();
     setResultsLimit(25); // Reset to default
     
     if (Platform.OS !== 'web') {
@@ -217,6 +317,174 @@ export function FilterSettings({ onClose, showResultsLimit = false }: FilterSett
           </Pressable>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Likelihood scoring</Text>
+          <Text style={styles.sectionDescription}>
+            Choose what matters most when estimating your chance of seeing each bird.
+          </Text>
+          <View style={styles.optionsContainer}>
+            {SCORING_PRESETS.map((preset) => (
+              <Pressable
+                key={preset.id}
+                style={({ pressed }) => [
+                  styles.option,
+                  presetId === preset.id && styles.optionSelected,
+                  pressed && styles.optionPressed,
+                ]}
+                onPress={() => handlePresetSelect(preset.id)}
+              >
+                {presetId === preset.id ? (
+                  <LinearGradient
+                    colors={['#2D3F1F', '#3A5129']}
+                    style={styles.selectedGradient}
+                  >
+                    <View style={styles.optionContent}>
+                      <View style={styles.optionHeader}>
+                        <Text style={styles.optionTextSelected}>{preset.label}</Text>
+                        <Check size={18} color="#FFFFFF" />
+                      </View>
+                      <Text style={styles.optionDescriptionSelected}>{preset.description}</Text>
+                    </View>
+                  </LinearGradient>
+                ) : (
+                  <View style={styles.optionContent}>
+                    <Text style={styles.optionText}>{preset.label}</Text>
+                    <Text style={styles.optionDescription}>{preset.description}</Text>
+                  </View>
+                )}
+              </Pressable>
+            ))}
+          </View>
+
+          <Text style={styles.subsectionTitle}>
+            Fine-tune{presetId === null ? ' (custom)' : ''}
+          </Text>
+          <View style={styles.weightsContainer}>
+            {WEIGHT_ITEMS.map((item) => (
+              <View key={item.key} style={styles.weightRow}>
+                <Text style={styles.weightLabel}>{item.label}</Text>
+                <View style={styles.stepper}>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustWeight(item.key, -WEIGHT_STEP)}
+                    disabled={scoringConfig.weights[item.key] <= 0}
+                  >
+                    <Minus size={16} color="#2D3F1F" />
+                  </Pressable>
+                  <Text style={styles.stepperValue}>{scoringConfig.weights[item.key]} pts</Text>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustWeight(item.key, WEIGHT_STEP)}
+                  >
+                    <Plus size={16} color="#2D3F1F" />
+                  </Pressable>
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.weightRow}>
+              <Text style={styles.weightLabel}>Recency decay</Text>
+              <View style={styles.stepper}>
+                <Pressable
+                  style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                  onPress={() => adjustDecay(-DECAY_STEP)}
+                  disabled={scoringConfig.recencyDecayPerDay <= 0}
+                >
+                  <Minus size={16} color="#2D3F1F" />
+                </Pressable>
+                <Text style={styles.stepperValue}>{scoringConfig.recencyDecayPerDay.toFixed(2)}/day</Text>
+                <Pressable
+                  style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                  onPress={() => adjustDecay(DECAY_STEP)}
+                >
+                  <Plus size={16} color="#2D3F1F" />
+                </Pressable>
+              </View>
+            </View>
+
+            <View style={styles.weightRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.weightLabel}>Seasonal model</Text>
+                <Text style={styles.optionDescription}>
+                  Blend in reports from these weeks in past years and show birds expected now
+                </Text>
+              </View>
+              <Switch
+                value={seasonalEnabled}
+                onValueChange={toggleSeasonal}
+                trackColor={{ false: '#E1E2DE', true: '#3A5129' }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            {seasonalEnabled && (
+              <View style={styles.weightRow}>
+                <Text style={styles.weightLabel}>Seasonal share</Text>
+                <View style={styles.stepper}>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustSeasonalWeight(-SEASONAL_STEP)}
+                    disabled={scoringConfig.seasonalWeight <= 0}
+                  >
+                    <Minus size={16} color="#2D3F1F" />
+                  </Pressable>
+                  <Text style={styles.stepperValue}>{Math.round(scoringConfig.seasonalWeight * 100)}%</Text>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustSeasonalWeight(SEASONAL_STEP)}
+                    disabled={scoringConfig.seasonalWeight >= 1}
+                  >
+                    <Plus size={16} color="#2D3F1F" />
+                  </Pressable>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.weightRow}>
+              <View style={styles.switchLabel}>
+                <Text style={styles.weightLabel}>Time of day</Text>
+                <Text style={styles.optionDescription}>
+                  Favor birds most often reported at the hour you'll be out
+                </Text>
+              </View>
+              <Switch
+                value={activityEnabled}
+                onValueChange={toggleActivity}
+                trackColor={{ false: '#E1E2DE', true: '#3A5129' }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            {activityEnabled && (
+              <View style={styles.weightRow}>
+                <Pressable onPress={() => setPlannedHour(null)} disabled={plannedHour === null}>
+                  <Text style={styles.weightLabel}>Planned time</Text>
+                  {plannedHour !== null && (
+                    <Text style={styles.optionDescription}>Tap to use the current time</Text>
+                  )}
+                </Pressable>
+                <View style={styles.stepper}>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustPlannedHour(-1)}
+                  >
+                    <Minus size={16} color="#2D3F1F" />
+                  </Pressable>
+                  <Text style={styles.stepperValue}>
+                    {plannedHour === null ? 'Now' : formatHour(plannedHour)}
+                  </Text>
+                  <Pressable
+                    style={({ pressed }) => [styles.stepperButton, pressed && styles.optionPressed]}
+                    onPress={() => adjustPlannedHour(1)}
+                  >
+                    <Plus size={16} color="#2D3F1F" />
+                  </Pressable>
+                </View>
+              </View>
+            )}
+          </View>
+        </View>
+
         <View style={styles.resetContainer}>
           <Pressable
             style={({ pressed }) => [
@@ -351,6 +619,53 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  subsectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  weightsContainer: {
+    gap: 10,
+    width: '100%',
+  },
+  weightRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+  },
+  weightLabel: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    padding: 6,
+    borderRadius: 16,
+    backgroundColor: '#E1E2DE',
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
   resetContainer: {
     marginTop: 16,
     alignItems: 'center',
@@ -0,0 +1,66 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, Platform } from 'react-native';
+import { Download } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { GEO_EXPORT_FORMATS, GeoExportFormat } from '@/utils/geo-export';
+
+interface GeoExportButtonsProps {
+  onExport: (format: GeoExportFormat) => void;
+  disabled?: boolean;
+}
+
+// One button per map file format, for handing points to GPS units and GIS tools
+export function GeoExportButtons({ onExport, disabled = false }: GeoExportButtonsProps) {
+  const handlePress = (format: GeoExportFormat) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    onExport(format);
+  };
+
+  return (
+    <View style={styles.row}>
+      {GEO_EXPORT_FORMATS.map(option => (
+        <Pressable
+          key={option.format}
+          style={({ pressed }) => [styles.button, disabled && styles.buttonDisabled, pressed && styles.buttonPressed]}
+          onPress={() => handlePress(option.format)}
+          disabled={disabled}
+        >
+          <Download size={14} color="#2D3F1F" />
+          <Text style={styles.buttonText}>{option.label}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    paddingVertical: 10,
+  },
+  buttonPressed: {
+    backgroundColor: '#E1E2DE',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+});
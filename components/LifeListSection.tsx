@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, TextInput } from 'react-native';
+import { CheckCircle, Circle, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { BirdObservation } from '@/types/birds';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+import { usePersonalSightingsStore } from '@/hooks/use-personal-sightings-store';
+
+interface LifeListSectionProps {
+  bird: BirdObservation;
+}
+
+// Local calendar date as YYYY-MM-DD
+const todayString = () => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+export function LifeListSection({ bird }: LifeListSectionProps) {
+  const entry = useLifeListStore((state) => state.entries[bird.speciesCode]);
+  const { markSeen, updateNotes, removeSpecies } = useLifeListStore();
+  const [notes, setNotes] = useState(entry?.notes || '');
+  const personalSightings = usePersonalSightingsStore((state) => state.sightings);
+
+  // The user's own reports of this species, newest first
+  const mySightings = useMemo(
+    () => personalSightings
+      .filter(sighting => sighting.speciesCode === bird.speciesCode)
+      .sort((a, b) => b.obsDt.localeCompare(a.obsDt)),
+    [personalSightings, bird.speciesCode]
+  );
+
+  // Keep the notes box in sync when the modal switches species
+  useEffect(() => {
+    setNotes(entry?.notes || '');
+  }, [bird.speciesCode, entry?.notes]);
+
+  const handleMarkSeen = () => {
+    markSeen({
+      speciesCode: bird.speciesCode,
+      comName: bird.comName,
+      sciName: bird.sciName,
+      firstSeenDate: todayString(),
+      locName: bird.locName,
+      lat: bird.lat,
+      lng: bird.lng,
+    });
+
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+  };
+
+  const handleRemove = () => {
+    removeSpecies(bird.speciesCode);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  if (!entry) {
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.markButton, pressed && styles.buttonPressed]}
+        onPress={handleMarkSeen}
+      >
+        <Circle size={18} color="#FFFFFF" />
+        <Text style={styles.markButtonText}>Mark as seen</Text>
+      </Pressable>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <CheckCircle size={18} color="#2D8B4F" />
+        <Text style={styles.headerText} numberOfLines={2}>
+          On your life list since {new Date(`${entry.firstSeenDate}T00:00:00`).toLocaleDateString()}
+          {entry.locName ? ` at ${entry.locName}` : ''}
+        </Text>
+        <Pressable onPress={handleRemove} hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+          <Trash2 size={16} color="#666" />
+        </Pressable>
+      </View>
+
+      {mySightings.length > 0 && (
+        <Text style={styles.recordsText}>
+          Your records: {mySightings.length} checklist{mySightings.length === 1 ? '' : 's'}, most recently
+          on {new Date(`${mySightings[0].obsDt.slice(0, 10)}T00:00:00`).toLocaleDateString()} at {mySightings[0].locName}
+        </Text>
+      )}
+
+      <TextInput
+        style={styles.notesInput}
+        value={notes}
+        onChangeText={setNotes}
+        onEndEditing={() => updateNotes(bird.speciesCode, notes.trim())}
+        placeholder="Add notes about this sighting"
+        placeholderTextColor="#999"
+        multiline
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F5F6F3',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+    gap: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  recordsText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  notesInput: {
+    minHeight: 60,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    padding: 10,
+    fontSize: 14,
+    color: '#2D3F1F',
+    textAlignVertical: 'top',
+  },
+  markButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2D3F1F',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  markButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
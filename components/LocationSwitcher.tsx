@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, Modal, ScrollView } from 'react-native';
+import { MapPin, Navigation, Check, Settings2, Globe } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { usePlacesStore } from '@/hooks/use-places-store';
+import { SavedPlace } from '@/types/birds';
+
+// Header pill for switching between GPS, saved places and a whole eBird region
+export function LocationSwitcher() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const { places, selectedPlaceId, selectPlace } = usePlacesStore();
+  const { searchRegion, setLocation, setSearchRegion } = useBirdsStore();
+
+  const selectedPlace = places.find(place => place.id === selectedPlaceId);
+
+  const handleSelect = (place: SavedPlace | null) => {
+    selectPlace(place ? place.id : null);
+    setSearchRegion(null); // back to a radius search around the chosen point
+    // The sightings screen refreshes the GPS position itself when switching back to it
+    if (place) {
+      setLocation({ latitude: place.latitude, longitude: place.longitude });
+    }
+    setIsOpen(false);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const openScreen = (path: '/places' | '/regions') => {
+    setIsOpen(false);
+    router.push(path);
+  };
+
+  return (
+    <>
+      <Pressable
+        style={({ pressed }) => [styles.pill, pressed && styles.pressed]}
+        onPress={() => setIsOpen(true)}
+        hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+      >
+        {searchRegion
+          ? <Globe size={14} color="#2D3F1F" />
+          : selectedPlace ? <MapPin size={14} color="#2D3F1F" /> : <Navigation size={14} color="#2D3F1F" />}
+        <Text style={styles.pillText} numberOfLines={1}>
+          {searchRegion ? searchRegion.name : selectedPlace ? selectedPlace.name : 'GPS'}
+        </Text>
+      </Pressable>
+
+      <Modal visible={isOpen} transparent animationType="fade" onRequestClose={() => setIsOpen(false)}>
+        <Pressable style={styles.backdrop} onPress={() => setIsOpen(false)}>
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Search near</Text>
+            <ScrollView style={styles.list}>
+              {searchRegion && (
+                <Pressable
+                  style={({ pressed }) => [styles.option, pressed && styles.pressed]}
+                  onPress={() => openScreen('/regions')}
+                >
+                  <Globe size={18} color="#2D3F1F" />
+                  <Text style={styles.optionText} numberOfLines={1}>All of {searchRegion.name}</Text>
+                  <Check size={18} color="#2D3F1F" />
+                </Pressable>
+              )}
+
+              <Pressable
+                style={({ pressed }) => [styles.option, pressed && styles.pressed]}
+                onPress={() => handleSelect(null)}
+              >
+                <Navigation size={18} color="#2D3F1F" />
+                <Text style={styles.optionText}>Current location (GPS)</Text>
+                {!searchRegion && !selectedPlace && <Check size={18} color="#2D3F1F" />}
+              </Pressable>
+
+              {places.map(place => (
+                <Pressable
+                  key={place.id}
+                  style={({ pressed }) => [styles.option, pressed && styles.pressed]}
+                  onPress={() => handleSelect(place)}
+                >
+                  <MapPin size={18} color="#2D3F1F" />
+                  <Text style={styles.optionText} numberOfLines={1}>{place.name}</Text>
+                  {!searchRegion && place.id === selectedPlaceId && <Check size={18} color="#2D3F1F" />}
+                </Pressable>
+              ))}
+            </ScrollView>
+
+            <Pressable
+              style={({ pressed }) => [styles.manageButton, pressed && styles.pressed]}
+              onPress={() => openScreen('/places')}
+            >
+              <Settings2 size={16} color="#FFFFFF" />
+              <Text style={styles.manageButtonText}>Search or pin a place…</Text>
+            </Pressable>
+            <Pressable
+              style={({ pressed }) => [styles.manageButton, styles.secondaryButton, pressed && styles.pressed]}
+              onPress={() => openScreen('/regions')}
+            >
+              <Globe size={16} color="#2D3F1F" />
+              <Text style={[styles.manageButtonText, styles.secondaryButtonText]}>Browse by region…</Text>
+            </Pressable>
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 120,
+    backgroundColor: '#F5F6F3',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: Platform.OS === 'web' ? 12 : 0,
+  },
+  pillText: {
+    fontSize: 13,
+    color: '#2D3F1F',
+    fontWeight: '500',
+    flexShrink: 1,
+  },
+  pressed: {
+    opacity: 0.7,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    maxHeight: '70%',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2D3F1F',
+  },
+  manageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2D3F1F',
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  manageButtonText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: 8,
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+  },
+  secondaryButtonText: {
+    color: '#2D3F1F',
+  },
+});
@@ -0,0 +1,36 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { WifiOff } from 'lucide-react-native';
+import { formatDataAsOf } from '@/utils/response-cache';
+
+interface OfflineBannerProps {
+  fetchedAt?: number | null;
+  message?: string;
+}
+
+export function OfflineBanner({ fetchedAt, message = 'Showing saved data' }: OfflineBannerProps) {
+  return (
+    <View style={styles.banner}>
+      <WifiOff size={16} color="#FFFFFF" />
+      <Text style={styles.bannerText}>
+        Offline - {message}{fetchedAt ? ` ${formatDataAsOf(fetchedAt)}` : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6B6B6B',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,37 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { formatRadius } from '@/utils/geo';
+import { EBIRD_MAX_RADIUS_MILES, isSearchCapped } from '@/utils/search-radius';
+
+// Says so when the chosen radius was wider than eBird searches and results stop short of it
+export function RadiusCapNotice() {
+  const { searchRadius, searchRegion } = useBirdsStore();
+  const { units, tileLargeSearches } = useSettingsStore();
+
+  if (searchRegion || !isSearchCapped(searchRadius, tileLargeSearches)) return null;
+
+  return (
+    <View style={styles.container}>
+      <AlertTriangle size={12} color="#D4A017" />
+      <Text style={styles.text}>
+        Capped at eBird's {formatRadius(EBIRD_MAX_RADIUS_MILES, units)} limit, not the {formatRadius(searchRadius, units)} chosen
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  text: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
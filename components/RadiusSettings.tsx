@@ -1,26 +1,50 @@
-import { View, Text, StyleSheet, Pressable, Image, Linking, Platform, ScrollView } from 'react-native';
+import { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Image, Linking, Platform, ScrollView, Switch } from 'react-native';
 import { useBirdsStore } from '@/hooks/use-birds-store';
-import { X } from 'lucide-react-native';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { RADIUS_OPTIONS_MILES, formatRadius, milesToKm, kmToMiles, distanceUnit } from '@/utils/geo';
+import {
+  EBIRD_MAX_RADIUS_MILES,
+  MIN_RADIUS_MILES,
+  MAX_RADIUS_MILES,
+  exceedsEBirdLimit,
+  searchedRadiusMiles,
+} from '@/utils/search-radius';
+import { RadiusSlider } from '@/components/RadiusSlider';
+import { X, AlertTriangle } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { LinearGradient } from 'expo-linear-gradient';
 
-const RADIUS_OPTIONS = [
-  { label: '5 miles', value: 5 },
-  { label: '10 miles', value: 10 },
-  { label: '15 miles', value: 15 },
-  { label: '25 miles', value: 25 },
-];
-
 interface RadiusSettingsProps {
   onSelect?: () => void;
   onClose?: () => void;
 }
 
 export function RadiusSettings({ onSelect, onClose }: RadiusSettingsProps) {
-  const { searchRadius, setSearchRadius } = useBirdsStore();
+  const { searchRadius, searchRegion, setSearchRadius, setSearchRegion } = useBirdsStore();
+  const { units, tileLargeSearches, setTileLargeSearches } = useSettingsStore();
+
+  // Radii are stored in miles, so kilometre options are fractional
+  const radiusOptions = RADIUS_OPTIONS_MILES[units].map(miles => ({ label: formatRadius(miles, units, true), value: miles }));
+  const isSelected = (value: number) => !searchRegion && Math.abs(searchRadius - value) < 0.01;
+  const isPreset = radiusOptions.some(option => isSelected(option.value));
+
+  // The slider works in whole miles or kilometers
+  const toDisplay = (miles: number) => (units === 'metric' ? milesToKm(miles) : miles);
+  const fromDisplay = (value: number) => (units === 'metric' ? kmToMiles(value) : value);
+  const sliderMin = Math.round(toDisplay(MIN_RADIUS_MILES));
+  const sliderMax = Math.round(toDisplay(MAX_RADIUS_MILES));
+
+  const [customValue, setCustomValue] = useState(() =>
+    Math.min(sliderMax, Math.max(sliderMin, Math.round(toDisplay(searchRadius))))
+  );
+  const customMiles = fromDisplay(customValue);
+  const isCustomCurrent = !searchRegion && !isPreset && Math.abs(searchRadius - customMiles) < 0.01;
+  const customExceedsLimit = exceedsEBirdLimit(customMiles);
 
   const handleSelect = (radius: number) => {
     setSearchRadius(radius);
+    setSearchRegion(null); // picking a radius goes back to searching around the location
     
     if (Platform.OS !== 'web') {
       Haptics.selectionAsync();
@@ -29,6 +53,19 @@ export function RadiusSettings({ onSelect, onClose }: RadiusSettingsProps) {
     onSelect?.();
   };
 
+  const toggleTiling = (enabled: boolean) => {
+    setTileLargeSearches(enabled);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+
+    // Reload right away when the current search is the one affected
+    if (!searchRegion && exceedsEBirdLimit(searchRadius)) {
+      onSelect?.();
+    }
+  };
+
   const openEBirdWebsite = async () => {
     const url = 'https://ebird.org';
     const canOpen = await Linking.canOpenURL(url);
@@ -68,19 +105,24 @@ export function RadiusSettings({ onSelect, onClose }: RadiusSettingsProps) {
         <Text style={styles.description}>
           Select how far to search for bird sightings from your current location.
         </Text>
+        {searchRegion && (
+          <Text style={styles.description}>
+            Currently searching all of {searchRegion.name}. Picking a radius switches back.
+          </Text>
+        )}
         
         <View style={styles.optionsContainer}>
-          {RADIUS_OPTIONS.map((option) => (
+          {radiusOptions.map((option) => (
             <Pressable
               key={option.value}
               style={({ pressed }) => [
                 styles.option,
-                searchRadius === option.value && styles.optionSelected,
+                isSelected(option.value) && styles.optionSelected,
                 pressed && styles.optionPressed,
               ]}
               onPress={() => handleSelect(option.value)}
             >
-              {searchRadius === option.value ? (
+              {isSelected(option.value) ? (
                 <LinearGradient
                   colors={['#2D3F1F', '#3A5129']}
                   style={styles.selectedGradient}
@@ -93,6 +135,63 @@ export function RadiusSettings({ onSelect, onClose }: RadiusSettingsProps) {
             </Pressable>
           ))}
         </View>
+
+        <Text style={styles.sectionTitle}>Custom</Text>
+        <View style={styles.customContainer}>
+          <View style={styles.customHeader}>
+            <Text style={styles.customValue}>{formatRadius(customMiles, units, true)}</Text>
+            {isCustomCurrent && <Text style={styles.customCurrent}>Current</Text>}
+          </View>
+
+          <RadiusSlider
+            value={customValue}
+            min={sliderMin}
+            max={sliderMax}
+            marker={toDisplay(EBIRD_MAX_RADIUS_MILES)}
+            onChange={setCustomValue}
+          />
+          <View style={styles.sliderLabels}>
+            <Text style={styles.sliderLabel}>{sliderMin} {distanceUnit(units)}</Text>
+            <Text style={styles.sliderLabel}>{sliderMax} {distanceUnit(units)}</Text>
+          </View>
+
+          {customExceedsLimit && (
+            <View style={styles.limitNotice}>
+              <View style={styles.limitHeader}>
+                <AlertTriangle size={16} color="#D4A017" />
+                <Text style={styles.limitTitle}>
+                  Over eBird's {formatRadius(EBIRD_MAX_RADIUS_MILES, units)} limit
+                </Text>
+              </View>
+              <Text style={styles.limitText}>
+                {tileLargeSearches
+                  ? 'The area is covered with several overlapping searches, which takes longer and uses more requests.'
+                  : `A single search only reaches ${formatRadius(searchedRadiusMiles(customMiles, false), units)}. Split it up to cover the whole area.`}
+              </Text>
+              <View style={styles.switchRow}>
+                <Text style={styles.switchLabel}>Split into several searches</Text>
+                <Switch
+                  value={tileLargeSearches}
+                  onValueChange={toggleTiling}
+                  trackColor={{ false: '#E1E2DE', true: '#3A5129' }}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            </View>
+          )}
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.customButton,
+              isCustomCurrent && styles.customButtonDisabled,
+              pressed && styles.optionPressed,
+            ]}
+            onPress={() => handleSelect(customMiles)}
+            disabled={isCustomCurrent}
+          >
+            <Text style={styles.customButtonText}>Use {formatRadius(customMiles, units)}</Text>
+          </Pressable>
+        </View>
         
         <View style={styles.attributionContainer}>
           <Text style={styles.poweredByText}>Powered by</Text>
@@ -186,6 +285,91 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  sectionTitle: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '600',
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  customContainer: {
+    borderRadius: 12,
+    backgroundColor: '#F5F6F3',
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    padding: 16,
+  },
+  customHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  customValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  customCurrent: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#3A5129',
+  },
+  sliderLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sliderLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  limitNotice: {
+    backgroundColor: 'rgba(212, 160, 23, 0.1)',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  limitHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  limitTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  limitText: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  customButton: {
+    backgroundColor: '#2D3F1F',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  customButtonDisabled: {
+    opacity: 0.5,
+  },
+  customButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   attributionContainer: {
     alignItems: 'center',
     marginTop: 40,
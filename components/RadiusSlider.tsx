@@ -0,0 +1,117 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, LayoutChangeEvent, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+interface RadiusSliderProps {
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  marker?: number; // value to tick on the track, e.g. eBird's limit
+  onChange: (value: number) => void;
+}
+
+const THUMB_SIZE = 28;
+
+// A draggable track for picking a number; tapping the track jumps straight to that value
+export function RadiusSlider({ value, min, max, step = 1, marker, onChange }: RadiusSliderProps) {
+  const [width, setWidth] = useState(0);
+
+  // Refs so the pan handlers always see the latest values
+  const stateRef = useRef({ width, value, min, max, step, onChange });
+  stateRef.current = { width, value, min, max, step, onChange };
+
+  const positionFor = (current: number) =>
+    width > 0 ? ((Math.min(Math.max(current, min), max) - min) / (max - min)) * width : 0;
+
+  const panResponder = useMemo(
+    () => {
+      const valueAt = (x: number) => {
+        const { width: trackWidth, min: low, max: high, step: increment } = stateRef.current;
+        if (trackWidth <= 0) return low;
+        const raw = low + (Math.min(Math.max(x, 0), trackWidth) / trackWidth) * (high - low);
+        return Math.min(high, Math.max(low, Math.round(raw / increment) * increment));
+      };
+
+      const update = (x: number) => {
+        const next = valueAt(x);
+        if (next === stateRef.current.value) return;
+        stateRef.current.onChange(next);
+      };
+
+      let startX = 0;
+
+      return PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false, // keep the gesture when inside a ScrollView
+        onPanResponderGrant: (event) => {
+          startX = event.nativeEvent.locationX;
+          update(startX);
+
+          if (Platform.OS !== 'web') {
+            Haptics.selectionAsync();
+          }
+        },
+        onPanResponderMove: (_, gesture) => update(startX + gesture.dx),
+      });
+    },
+    []
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+  const position = positionFor(value);
+
+  return (
+    <View style={styles.container} onLayout={handleLayout} {...panResponder.panHandlers}>
+      <View style={styles.track} pointerEvents="none">
+        <View style={[styles.fill, { width: position }]} />
+      </View>
+      {marker !== undefined && marker > min && marker < max && (
+        <View style={[styles.marker, { left: positionFor(marker) - 1 }]} pointerEvents="none" />
+      )}
+      <View style={[styles.thumb, { left: position - THUMB_SIZE / 2 }]} pointerEvents="none" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 44,
+    justifyContent: 'center',
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E1E2DE',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#2D3F1F',
+  },
+  marker: {
+    position: 'absolute',
+    top: 12,
+    width: 2,
+    height: 20,
+    borderRadius: 1,
+    backgroundColor: '#D4A017',
+  },
+  thumb: {
+    position: 'absolute',
+    top: (44 - THUMB_SIZE) / 2,
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#2D3F1F',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.15,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+});
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform } from 'react-native';
+import { ChevronDown, ChevronUp, HelpCircle } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { LikelihoodBreakdown } from '@/types/birds';
+import { useScoringStore } from '@/hooks/use-scoring-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { formatDistance } from '@/utils/geo';
+
+interface ScoreBreakdownProps {
+  breakdown: LikelihoodBreakdown;
+}
+
+interface ComponentRow {
+  label: string;
+  score: number;
+  max: number;
+  detail: string;
+}
+
+const formatDays = (days: number) => {
+  if (days < 1) return 'today';
+  const rounded = Math.round(days);
+  return rounded === 1 ? '1 day ago' : `${rounded} days ago`;
+};
+
+export function ScoreBreakdown({ breakdown }: ScoreBreakdownProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { weights } = useScoringStore((state) => state.config);
+  const units = useSettingsStore((state) => state.units);
+
+  const toggleExpanded = () => {
+    setExpanded(!expanded);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  const rows: ComponentRow[] = [
+    {
+      label: 'Frequency',
+      score: breakdown.frequencyScore,
+      max: weights.frequency,
+      detail: `${breakdown.sightings} of up to ${breakdown.maxSightings} reports for any species`,
+    },
+    {
+      label: 'Recency',
+      score: breakdown.recencyScore,
+      max: weights.recency,
+      detail: `Last reported ${formatDays(breakdown.daysSinceLastSeen)}`,
+    },
+    {
+      label: 'Flock size',
+      score: breakdown.volumeScore,
+      max: weights.volume,
+      detail: `${breakdown.totalCount} birds counted (top species: ${breakdown.maxTotalCount})`,
+    },
+    {
+      label: 'Consistency',
+      score: breakdown.consistencyScore,
+      max: weights.consistency,
+      detail: breakdown.reportSpanDays > 0
+        ? `Reports spread over ${Math.round(breakdown.reportSpanDays)} days`
+        : 'Only reported on a single day',
+    },
+    {
+      label: 'Distance',
+      score: breakdown.distanceScore ?? 0,
+      max: weights.distance,
+      detail: typeof breakdown.nearestDistanceKm === 'number'
+        ? `Nearest report ${formatDistance(breakdown.nearestDistanceKm, units, 1, true)} away`
+        : 'Your location was not available',
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Pressable style={styles.toggleRow} onPress={toggleExpanded}>
+        <HelpCircle size={16} color="#2D3F1F" />
+        <Text style={styles.toggleText}>Why this score?</Text>
+        {expanded ? <ChevronUp size={16} color="#2D3F1F" /> : <ChevronDown size={16} color="#2D3F1F" />}
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.content}>
+          {rows.map(row => (
+            <View key={row.label} style={styles.row}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.rowLabel}>{row.label}</Text>
+                <Text style={styles.rowScore}>
+                  {Math.round(row.score)} / {row.max}
+                </Text>
+              </View>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${row.max > 0 ? Math.min(100, (row.score / row.max) * 100) : 0}%` }]} />
+              </View>
+              <Text style={styles.rowDetail}>{row.detail}</Text>
+            </View>
+          ))}
+
+          <Text style={styles.footnote}>
+            Based on eBird reports nearby in the last 30 days.
+            {breakdown.rawTotal > 99 ? ' Scores are capped at 99% - nothing is certain in birding!' : ''}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F5F6F3',
+    borderRadius: 12,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+  },
+  toggleText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#2D3F1F',
+  },
+  content: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  row: {
+    gap: 4,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  rowScore: {
+    fontSize: 14,
+    color: '#2D3F1F',
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E1E2DE',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#2D3F1F',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#666',
+  },
+  footnote: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, Platform } from 'react-native';
+import { X, FileSpreadsheet, FileJson } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { shareTextFile } from '@/utils/file-export';
+import { sightingsToCsv, sightingsToJson } from '@/utils/sightings-export';
+import { buildGeoExport, sightingPoints, GeoExportFormat } from '@/utils/geo-export';
+import { GeoExportButtons } from '@/components/GeoExportButtons';
+import { BirdObservation } from '@/types/birds';
+
+interface SightingsExportProps {
+  birds: BirdObservation[]; // the list exactly as shown, sorted and limited
+  onClose?: () => void;
+}
+
+const fileDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export function SightingsExport({ birds, onClose }: SightingsExportProps) {
+  const baseName = `bird-sightings-${fileDate(Date.now())}`;
+
+  const share = (filename: string, contents: string, mimeType: string) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+
+    shareTextFile(filename, contents, mimeType).catch(err => console.error('Error exporting sightings:', err));
+  };
+
+  const exportLocations = (format: GeoExportFormat) => {
+    const { filename, contents, mimeType } = buildGeoExport(baseName, 'Recent bird sightings', sightingPoints(birds), format);
+    share(filename, contents, mimeType);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Export Sightings</Text>
+        {onClose && (
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+          >
+            <X size={24} color="#2D3F1F" />
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={styles.description}>
+        Save the {birds.length} species in the list with their likelihood, score components, last report and location.
+      </Text>
+
+      <View style={styles.buttons}>
+        <Pressable
+          style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+          onPress={() => share(`${baseName}.csv`, sightingsToCsv(birds), 'text/csv')}
+        >
+          <FileSpreadsheet size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>CSV</Text>
+        </Pressable>
+        <Pressable
+          style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+          onPress={() => share(`${baseName}.json`, sightingsToJson(birds), 'application/json')}
+        >
+          <FileJson size={20} color="#FFFFFF" />
+          <Text style={styles.buttonText}>JSON</Text>
+        </Pressable>
+      </View>
+
+      <Text style={styles.sectionTitle}>Sighting locations</Text>
+      <GeoExportButtons onExport={exportLocations} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#2D3F1F',
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 20,
+  },
+  closeButtonPressed: {
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  description: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 22,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  button: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+});
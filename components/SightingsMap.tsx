@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, Dimensions, Platform, ActivityIndicator } from 'react-native';
+import { X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchSpeciesSightings } from '@/utils/api';
+import { isNetworkError } from '@/utils/network';
+import { searchMapView } from '@/utils/map-tiles';
+import { milesToKm } from '@/utils/geo';
+import { searchedRadiusMiles } from '@/utils/search-radius';
+import { TileMap, MapMarker } from '@/components/TileMap';
+import { BirdObservation } from '@/types/birds';
+
+interface SightingsMapProps {
+  birds: BirdObservation[]; // the sightings currently shown in the list
+}
+
+interface SightingLocation {
+  locId: string;
+  locName: string;
+  lat: number;
+  lng: number;
+  birds: BirdObservation[]; // best-scoring first
+}
+
+const { width } = Dimensions.get('window');
+
+// Group sightings by eBird location, keeping the list's order inside each group
+function groupByLocation(birds: BirdObservation[]): SightingLocation[] {
+  const byLocation = new Map<string, SightingLocation>();
+  birds.forEach(bird => {
+    const existing = byLocation.get(bird.locId);
+    if (existing) {
+      existing.birds.push(bird);
+      return;
+    }
+    byLocation.set(bird.locId, { locId: bird.locId, locName: bird.locName, lat: bird.lat, lng: bird.lng, birds: [bird] });
+  });
+  return Array.from(byLocation.values());
+}
+
+export function SightingsMap({ birds }: SightingsMapProps) {
+  const { location, searchRadius, searchRegion, searchCenter, searchBounds, birdImages } = useBirdsStore();
+  const tileLargeSearches = useSettingsStore((state) => state.tileLargeSearches);
+  const [species, setSpecies] = useState<BirdObservation | null>(null);
+  const [speciesSightings, setSpeciesSightings] = useState<BirdObservation[] | null>(null);
+  const [isLoadingSpecies, setIsLoadingSpecies] = useState(false);
+  const [speciesNote, setSpeciesNote] = useState<string | null>(null);
+  const [selectedLocId, setSelectedLocId] = useState<string | null>(null);
+
+  // Every recent report of the chosen species, not just the one in the list
+  // Region searches look around the region's centre and work without the user's location
+  const sightingsOrigin = searchRegion ? searchCenter ?? location : location;
+  useEffect(() => {
+    if (!species || !sightingsOrigin) {
+      setSpeciesSightings(null);
+      setSpeciesNote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingSpecies(true);
+    setSpeciesNote(null);
+
+    fetchSpeciesSightings(species.speciesCode, sightingsOrigin)
+      .then(result => {
+        if (!cancelled) setSpeciesSightings(result.data);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        // Fall back to the report we already have
+        setSpeciesSightings([species]);
+        setSpeciesNote(isNetworkError(err) ? 'Offline - showing the latest report only' : 'Could not load all reports');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSpecies(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [species?.speciesCode, sightingsOrigin?.latitude, sightingsOrigin?.longitude]);
+
+  const locations = useMemo(
+    () => groupByLocation(species && speciesSightings ? speciesSightings : birds),
+    [birds, species, speciesSightings]
+  );
+
+  const radiusKm = milesToKm(searchedRadiusMiles(searchRadius, tileLargeSearches));
+  const view = searchMapView(
+    { location, isRegion: !!searchRegion, searchCenter, searchBounds, radiusKm },
+    width - 32,
+    400
+  );
+  if (!view) return null;
+
+  const firstImage = (speciesCode: string) => birdImages[speciesCode]?.[0];
+
+  const markers: MapMarker[] = locations.map(spot => ({
+    id: spot.locId,
+    latitude: spot.lat,
+    longitude: spot.lng,
+    color: spot.birds.some(bird => bird.isNotable) ? '#E63946' : '#2D3F1F',
+    imageUrl: firstImage(spot.birds[0].speciesCode),
+    count: spot.birds.length,
+  }));
+
+  const selectedLocation = locations.find(spot => spot.locId === selectedLocId) || null;
+
+  const chooseSpecies = (bird: BirdObservation | null) => {
+    setSpecies(bird);
+    setSelectedLocId(null);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.speciesChips}>
+        <Pressable
+          style={[styles.chip, !species && styles.chipSelected]}
+          onPress={() => chooseSpecies(null)}
+        >
+          <Text style={[styles.chipText, !species && styles.chipTextSelected]}>All species</Text>
+        </Pressable>
+        {birds.map(bird => (
+          <Pressable
+            key={bird.speciesCode}
+            style={[styles.chip, species?.speciesCode === bird.speciesCode && styles.chipSelected]}
+            onPress={() => chooseSpecies(bird)}
+          >
+            <Text style={[styles.chipText, species?.speciesCode === bird.speciesCode && styles.chipTextSelected]}>
+              {bird.comName}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <TileMap
+        center={view.center}
+        zoom={view.zoom}
+        markers={markers}
+        onMarkerPress={(locId) => setSelectedLocId(locId)}
+        selectedMarkerId={selectedLocId}
+        clusterMarkers
+        circle={searchRegion ? undefined : { center: view.center, radiusKm }}
+        height={400}
+      />
+
+      {(isLoadingSpecies || speciesNote || species) && (
+        <View style={styles.statusRow}>
+          {isLoadingSpecies && <ActivityIndicator size="small" color="#2D3F1F" />}
+          <Text style={styles.statusText}>
+            {isLoadingSpecies
+              ? `Finding ${species?.comName} reports...`
+              : speciesNote || `${locations.length} location${locations.length === 1 ? '' : 's'} with ${species?.comName} in the last 30 days`}
+          </Text>
+        </View>
+      )}
+
+      {selectedLocation && (
+        <View style={styles.callout}>
+          <View style={styles.calloutHeader}>
+            <Text style={styles.calloutTitle} numberOfLines={2}>{selectedLocation.locName}</Text>
+            <Pressable onPress={() => setSelectedLocId(null)} hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}>
+              <X size={16} color="#666" />
+            </Pressable>
+          </View>
+          {selectedLocation.birds.map(bird => (
+            <Pressable
+              key={`${bird.speciesCode}-${bird.obsDt}`}
+              style={styles.calloutRow}
+              onPress={() => chooseSpecies(bird)}
+              disabled={species?.speciesCode === bird.speciesCode}
+            >
+              <Text style={styles.calloutSpecies}>{bird.comName}</Text>
+              <Text style={styles.calloutMeta}>
+                {bird.howMany ?? 'X'} · {new Date(bird.obsDt.replace(' ', 'T')).toLocaleDateString()}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  speciesChips: {
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#2D3F1F',
+    borderColor: '#2D3F1F',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#2D3F1F',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#666',
+    flex: 1,
+  },
+  callout: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    padding: 12,
+  },
+  calloutHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  calloutTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2D3F1F',
+  },
+  calloutRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#F5F6F3',
+  },
+  calloutSpecies: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    flex: 1,
+  },
+  calloutMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, Platform, Linking, ActivityIndicator } from 'react-native';
+import { MapPin, Calendar, Navigation, Search } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { BirdObservation } from '@/types/birds';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { fetchSpeciesSightings } from '@/utils/api';
+import { distanceKm, formatDistance } from '@/utils/geo';
+
+interface SpeciesFinderProps {
+  bird: BirdObservation;
+}
+
+interface SightingLocation {
+  locId: string;
+  locName: string;
+  lat: number;
+  lng: number;
+  lastSeen: string;
+  distanceKm: number;
+}
+
+export function SpeciesFinder({ bird }: SpeciesFinderProps) {
+  const { location, isOffline } = useBirdsStore();
+  const units = useSettingsStore((state) => state.units);
+  const [sightings, setSightings] = useState<SightingLocation[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over when the modal switches to another species
+  useEffect(() => {
+    setSightings(null);
+    setError(null);
+  }, [bird.speciesCode]);
+
+  const findSightings = async () => {
+    if (!location) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+
+    try {
+      const result = await fetchSpeciesSightings(bird.speciesCode, location);
+
+      // One row per location, keeping the most recent report
+      const byLocation = new Map<string, SightingLocation>();
+      result.data.forEach(obs => {
+        const existing = byLocation.get(obs.locId);
+        if (existing && new Date(existing.lastSeen).getTime() >= new Date(obs.obsDt).getTime()) return;
+
+        byLocation.set(obs.locId, {
+          locId: obs.locId,
+          locName: obs.locName,
+          lat: obs.lat,
+          lng: obs.lng,
+          lastSeen: obs.obsDt,
+          distanceKm: distanceKm(location.latitude, location.longitude, obs.lat, obs.lng),
+        });
+      });
+
+      const sorted = Array.from(byLocation.values()).sort(
+        (a, b) => a.distanceKm - b.distanceKm
+      );
+      setSightings(sorted);
+    } catch (err) {
+      console.error('Error finding species sightings:', err);
+      setError(err instanceof Error ? err.message : 'Could not load sightings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDirections = (sighting: SightingLocation) => {
+    const { lat, lng, locName } = sighting;
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+
+    if (Platform.OS === 'web') {
+      window.open(`https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`, '_blank');
+      return;
+    }
+
+    const url = Platform.OS === 'ios'
+      ? `maps:?daddr=${lat},${lng}&q=${encodeURIComponent(locName)}`
+      : `google.navigation:q=${lat},${lng}`;
+
+    const webUrl = `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`;
+
+    // Fall back to directions in the browser if the maps app can't be checked or opened
+    Linking.canOpenURL(url)
+      .then(supported => Linking.openURL(supported ? url : webUrl))
+      .catch(() => Linking.openURL(webUrl))
+      .catch(err => console.error('Error opening directions:', err));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.sectionTitle}>Where to find it</Text>
+
+      {sightings === null && !isLoading && !error && (
+        <Pressable
+          style={({ pressed }) => [
+            styles.findButton,
+            (!location || isOffline) && styles.findButtonDisabled,
+            pressed && styles.findButtonPressed,
+          ]}
+          onPress={findSightings}
+          disabled={!location || isOffline}
+        >
+          <Search size={16} color="#2D3F1F" />
+          <Text style={styles.findButtonText}>
+            {isOffline ? 'Sighting search needs a connection' : 'Find nearest recent sightings'}
+          </Text>
+        </Pressable>
+      )}
+
+      {isLoading && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color="#2D3F1F" />
+          <Text style={styles.loadingText}>Searching eBird reports...</Text>
+        </View>
+      )}
+
+      {error && (
+        <Pressable onPress={findSightings}>
+          <Text style={styles.errorText}>{error} - tap to retry</Text>
+        </Pressable>
+      )}
+
+      {sightings && sightings.length === 0 && (
+        <Text style={styles.emptyText}>
+          No reports of {bird.comName} within {formatDistance(50, units, 0, true)} in the last 30 days.
+        </Text>
+      )}
+
+      {sightings && sightings.map(sighting => (
+        <View key={sighting.locId} style={styles.sightingItem}>
+          <View style={styles.sightingInfo}>
+            <Text style={styles.sightingName} numberOfLines={2}>{sighting.locName}</Text>
+            <View style={styles.sightingMeta}>
+              <View style={styles.metaItem}>
+                <MapPin size={12} color="#666" />
+                <Text style={styles.metaText}>{formatDistance(sighting.distanceKm, units)}</Text>
+              </View>
+              <View style={styles.metaItem}>
+                <Calendar size={12} color="#666" />
+                <Text style={styles.metaText}>
+                  Last seen {new Date(sighting.lastSeen).toLocaleDateString()}
+                </Text>
+              </View>
+            </View>
+          </View>
+
+          <Pressable
+            style={({ pressed }) => [styles.directionsButton, pressed && styles.findButtonPressed]}
+            onPress={() => openDirections(sighting)}
+            hitSlop={{ top: 8, right: 8, bottom: 8, left: 8 }}
+          >
+            <Navigation size={16} color="#FFFFFF" />
+          </Pressable>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 12,
+  },
+  findButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#F5F6F3',
+    padding: 12,
+    borderRadius: 8,
+  },
+  findButtonDisabled: {
+    opacity: 0.5,
+  },
+  findButtonPressed: {
+    opacity: 0.8,
+  },
+  findButtonText: {
+    fontSize: 14,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+    gap: 10,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#E63946',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  sightingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F5F6F3',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  sightingInfo: {
+    flex: 1,
+  },
+  sightingName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2D3F1F',
+    marginBottom: 4,
+  },
+  sightingMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  directionsButton: {
+    backgroundColor: '#2D3F1F',
+    borderRadius: 20,
+    padding: 8,
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, TextInput, Platform, ActivityIndicator } from 'react-native';
+import { X, Plus, Check } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useTargetsStore } from '@/hooks/use-targets-store';
+import { fetchRegionalSpeciesTaxa } from '@/utils/api';
+import { regionForHotspots } from '@/utils/seasonal-model';
+import { TargetSpecies } from '@/types/birds';
+
+interface TargetSpeciesPickerProps {
+  onApply: () => void; // rank the hotspots by the chosen targets
+  onClose?: () => void;
+}
+
+// Search results shown at once
+const MAX_RESULTS = 20;
+
+export function TargetSpeciesPicker({ onApply, onClose }: TargetSpeciesPickerProps) {
+  const { birds, hotspots, searchRegion } = useBirdsStore();
+  const { targets, addTarget, removeTarget, clearTargets } = useTargetsStore();
+  const [query, setQuery] = useState('');
+  const [regionalSpecies, setRegionalSpecies] = useState<TargetSpecies[] | null>(null);
+  const [isLoadingRegional, setIsLoadingRegional] = useState(false);
+
+  // The area's full species list, so targets aren't limited to what's been reported lately
+  useEffect(() => {
+    if (!query.trim() || regionalSpecies) return;
+
+    const regionCode = searchRegion?.code || regionForHotspots(hotspots);
+    if (!regionCode) return;
+
+    setIsLoadingRegional(true);
+    fetchRegionalSpeciesTaxa(regionCode)
+      .then(taxa => setRegionalSpecies(taxa.map(({ speciesCode, comName, sciName }) => ({ speciesCode, comName, sciName }))))
+      .catch(error => console.error('Error loading regional species:', error))
+      .finally(() => setIsLoadingRegional(false));
+  }, [query]);
+
+  const isTarget = (speciesCode: string) => targets.some(target => target.speciesCode === speciesCode);
+
+  const toggleTarget = (species: TargetSpecies) => {
+    if (isTarget(species.speciesCode)) {
+      removeTarget(species.speciesCode);
+    } else {
+      addTarget({ speciesCode: species.speciesCode, comName: species.comName, sciName: species.sciName });
+    }
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  // Nearby species first, then the rest of the region's list
+  const search = query.trim().toLowerCase();
+  const candidates: TargetSpecies[] = search
+    ? [...birds, ...(regionalSpecies || [])]
+        .filter((species, index, all) => all.findIndex(other => other.speciesCode === species.speciesCode) === index)
+        .filter(species => species.comName.toLowerCase().includes(search))
+    : birds;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Target Species</Text>
+        {onClose && (
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [styles.closeButton, pressed && styles.closeButtonPressed]}
+            hitSlop={{ top: 10, right: 10, bottom: 10, left: 10 }}
+          >
+            <X size={24} color="#2D3F1F" />
+          </Pressable>
+        )}
+      </View>
+
+      <Text style={styles.description}>
+        Pick the birds you're hoping to see and hotspots will be ranked by your chance of finding them.
+      </Text>
+
+      {targets.length > 0 && (
+        <View style={styles.targetChips}>
+          {targets.map(target => (
+            <Pressable key={target.speciesCode} style={styles.targetChip} onPress={() => removeTarget(target.speciesCode)}>
+              <Text style={styles.targetChipText}>{target.comName}</Text>
+              <X size={14} color="#FFFFFF" />
+            </Pressable>
+          ))}
+          <Pressable onPress={clearTargets}>
+            <Text style={styles.clearText}>Clear all</Text>
+          </Pressable>
+        </View>
+      )}
+
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search species"
+        placeholderTextColor="#999"
+        autoCorrect={false}
+      />
+
+      <ScrollView style={styles.results} keyboardShouldPersistTaps="handled">
+        {!search && <Text style={styles.sectionLabel}>Reported nearby</Text>}
+        {candidates.slice(0, MAX_RESULTS).map(species => (
+          <Pressable
+            key={species.speciesCode}
+            style={({ pressed }) => [styles.resultRow, pressed && styles.resultRowPressed]}
+            onPress={() => toggleTarget(species)}
+          >
+            <View style={styles.resultInfo}>
+              <Text style={styles.resultName}>{species.comName}</Text>
+              <Text style={styles.resultSciName}>{species.sciName}</Text>
+            </View>
+            {isTarget(species.speciesCode) ? <Check size={18} color="#2D3F1F" /> : <Plus size={18} color="#666" />}
+          </Pressable>
+        ))}
+        {isLoadingRegional && <ActivityIndicator style={styles.loading} size="small" color="#2D3F1F" />}
+        {search && !isLoadingRegional && candidates.length === 0 && (
+          <Text style={styles.emptyText}>No species match "{query.trim()}"</Text>
+        )}
+      </ScrollView>
+
+      <Pressable
+        style={({ pressed }) => [styles.applyButton, targets.length === 0 && styles.applyButtonDisabled, pressed && styles.closeButtonPressed]}
+        onPress={onApply}
+        disabled={targets.length === 0}
+      >
+        <Text style={styles.applyButtonText}>
+          Rank hotspots for {targets.length} target{targets.length === 1 ? '' : 's'}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#2D3F1F',
+  },
+  closeButton: {
+    padding: 8,
+    borderRadius: 20,
+  },
+  closeButtonPressed: {
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  description: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 22,
+  },
+  targetChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  targetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#2D3F1F',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  targetChipText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  clearText: {
+    fontSize: 13,
+    color: '#666',
+    textDecorationLine: 'underline',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E1E2DE',
+    borderRadius: 8,
+    backgroundColor: '#F5F6F3',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#2D3F1F',
+    marginBottom: 8,
+  },
+  results: {
+    flex: 1,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    color: '#666',
+    fontWeight: '600',
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E1E2DE',
+  },
+  resultRowPressed: {
+    backgroundColor: '#F5F6F3',
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 15,
+    color: '#2D3F1F',
+    fontWeight: '500',
+  },
+  resultSciName: {
+    fontSize: 13,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  loading: {
+    marginVertical: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  applyButton: {
+    backgroundColor: '#2D3F1F',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
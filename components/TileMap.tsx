@@ -0,0 +1,420 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, PanResponder, LayoutChangeEvent, Platform } from 'react-native';
+import { Image } from 'expo-image';
+import { Plus, Minus, MapPin } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { LocationState } from '@/types/birds';
+import { TILE_SIZE, MIN_ZOOM, MAX_ZOOM, project, unproject, tileUrl, metersPerPixel, clusterPoints } from '@/utils/map-tiles';
+import { MAP_ATTRIBUTION, identifyingHeaders } from '@/utils/map-providers';
+
+export interface MapMarker {
+  id: string;
+  latitude: number;
+  longitude: number;
+  color?: string;
+  imageUrl?: string; // draw a round thumbnail instead of a pin
+  count?: number; // small number badge, e.g. species at the location
+}
+
+interface TileMapProps {
+  center: LocationState;
+  zoom?: number;
+  markers?: MapMarker[];
+  onPress?: (coordinate: LocationState) => void; // tap on the map itself
+  onMarkerPress?: (markerId: string) => void;
+  selectedMarkerId?: string | null;
+  clusterMarkers?: boolean; // merge markers that would overlap into a numbered bubble
+  onClusterPress?: (markerIds: string[]) => void; // only called once the map can't zoom in further
+  circle?: { center: LocationState; radiusKm: number }; // e.g. the search radius
+  height?: number;
+}
+
+// Movement (px) below which a touch counts as a tap rather than a drag
+const TAP_SLOP = 6;
+
+// Markers closer together than this (px) are clustered
+const CLUSTER_CELL_SIZE = 44;
+
+// Past this the circle's edge is far off screen and the view gets too big to draw
+const MAX_CIRCLE_RADIUS_PX = 20000;
+
+// Tile servers want to know which app is asking
+const tileHeaders = identifyingHeaders();
+
+// A small OpenStreetMap view drawn from raster tiles: drag to pan, pinch or use the buttons to zoom
+export function TileMap({
+  center,
+  zoom: initialZoom = 12,
+  markers = [],
+  onPress,
+  onMarkerPress,
+  selectedMarkerId = null,
+  clusterMarkers = false,
+  onClusterPress,
+  circle,
+  height = 260,
+}: TileMapProps) {
+  const [size, setSize] = useState({ width: 0, height });
+  const [zoom, setZoom] = useState(initialZoom);
+  const [mapCenter, setMapCenter] = useState(center);
+  const [drag, setDrag] = useState({ dx: 0, dy: 0 });
+  // Two-finger pinch in progress: scale so far and the focus, relative to the map's center
+  const [pinch, setPinch] = useState<{ scale: number; x: number; y: number } | null>(null);
+  const pinchStartDistanceRef = useRef<number | null>(null);
+
+  // Refs so the pan handlers always see the latest values
+  const stateRef = useRef({ mapCenter, zoom, size, onPress, pinch });
+  stateRef.current = { mapCenter, zoom, size, onPress, pinch };
+
+  // Follow the parent when it moves the map somewhere else
+  useEffect(() => {
+    setMapCenter(center);
+  }, [center.latitude, center.longitude]);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: (event, gesture) =>
+          event.nativeEvent.touches.length > 1 || Math.abs(gesture.dx) + Math.abs(gesture.dy) > TAP_SLOP,
+        onPanResponderTerminationRequest: () => false, // keep the gesture when inside a ScrollView
+        onPanResponderMove: (event, gesture) => {
+          const touches = event.nativeEvent.touches;
+          if (touches.length > 1) {
+            const distance = Math.hypot(touches[0].pageX - touches[1].pageX, touches[0].pageY - touches[1].pageY);
+            if (pinchStartDistanceRef.current === null) {
+              pinchStartDistanceRef.current = distance;
+            }
+            const { size: currentSize } = stateRef.current;
+            setPinch({
+              scale: distance / pinchStartDistanceRef.current,
+              x: (touches[0].locationX + touches[1].locationX) / 2 - currentSize.width / 2,
+              y: (touches[0].locationY + touches[1].locationY) / 2 - currentSize.height / 2,
+            });
+            return;
+          }
+
+          // Ignore the leftover finger once a pinch has started
+          if (pinchStartDistanceRef.current === null) {
+            setDrag({ dx: gesture.dx, dy: gesture.dy });
+          }
+        },
+        onPanResponderRelease: (event, gesture) => {
+          const {
+            mapCenter: current,
+            zoom: currentZoom,
+            size: currentSize,
+            onPress: handlePress,
+            pinch: currentPinch,
+          } = stateRef.current;
+          const centerPoint = project(current.latitude, current.longitude, currentZoom);
+          setDrag({ dx: 0, dy: 0 });
+
+          if (pinchStartDistanceRef.current !== null) {
+            pinchStartDistanceRef.current = null;
+            setPinch(null);
+            if (!currentPinch) return;
+
+            // Tiles only come in whole zoom levels; keep the point between the fingers in place
+            const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, currentZoom + Math.round(Math.log2(currentPinch.scale))));
+            if (nextZoom === currentZoom) return;
+
+            const factor = Math.pow(2, nextZoom - currentZoom);
+            setMapCenter(unproject(
+              (centerPoint.x + currentPinch.x) * factor - currentPinch.x,
+              (centerPoint.y + currentPinch.y) * factor - currentPinch.y,
+              nextZoom
+            ));
+            setZoom(nextZoom);
+
+            if (Platform.OS !== 'web') {
+              Haptics.selectionAsync();
+            }
+            return;
+          }
+
+          if (Math.abs(gesture.dx) + Math.abs(gesture.dy) <= TAP_SLOP) {
+            if (!handlePress) return;
+            const { locationX, locationY } = event.nativeEvent;
+            handlePress(unproject(
+              centerPoint.x + locationX - currentSize.width / 2,
+              centerPoint.y + locationY - currentSize.height / 2,
+              currentZoom
+            ));
+            return;
+          }
+
+          setMapCenter(unproject(centerPoint.x - gesture.dx, centerPoint.y - gesture.dy, currentZoom));
+        },
+        onPanResponderTerminate: () => {
+          pinchStartDistanceRef.current = null;
+          setPinch(null);
+          setDrag({ dx: 0, dy: 0 });
+        },
+      }),
+    []
+  );
+
+  const changeZoom = (delta: number) => {
+    setZoom(current => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current + delta)));
+
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+  };
+
+  // Zoom in on a cluster so its markers separate
+  const handleClusterPress = (x: number, y: number, markerIds: string[]) => {
+    if (zoom >= MAX_ZOOM) {
+      onClusterPress?.(markerIds);
+      return;
+    }
+
+    setMapCenter(unproject(x, y, zoom));
+    changeZoom(Math.min(2, MAX_ZOOM - zoom));
+  };
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height: layoutHeight } = event.nativeEvent.layout;
+    setSize({ width, height: layoutHeight });
+  };
+
+  // Pixel position of the top-left corner of the view in world coordinates
+  const centerPoint = project(mapCenter.latitude, mapCenter.longitude, zoom);
+  const left = centerPoint.x - size.width / 2 - drag.dx;
+  const top = centerPoint.y - size.height / 2 - drag.dy;
+
+  const tiles: { key: string; url: string; x: number; y: number }[] = [];
+  if (size.width > 0) {
+    const tileCount = Math.pow(2, zoom);
+    const firstX = Math.floor(left / TILE_SIZE);
+    const lastX = Math.floor((left + size.width) / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(top / TILE_SIZE));
+    const lastY = Math.min(tileCount - 1, Math.floor((top + size.height) / TILE_SIZE));
+
+    for (let tx = firstX; tx <= lastX; tx++) {
+      for (let ty = firstY; ty <= lastY; ty++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount; // wrap around the date line
+        tiles.push({
+          key: `${zoom}-${tx}-${ty}`,
+          url: tileUrl(wrappedX, ty, zoom),
+          x: tx * TILE_SIZE - left,
+          y: ty * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  // Only markers on screen (plus a margin) are drawn or clustered
+  const visibleMarkers = markers.filter(marker => {
+    const point = project(marker.latitude, marker.longitude, zoom);
+    const x = point.x - left;
+    const y = point.y - top;
+    return x >= -20 && y >= -20 && x <= size.width + 20 && y <= size.height + 20;
+  });
+  const markerPoint = (marker: MapMarker) => project(marker.latitude, marker.longitude, zoom);
+  const clusters = clusterMarkers
+    ? clusterPoints(visibleMarkers, markerPoint, CLUSTER_CELL_SIZE)
+    : visibleMarkers.map(marker => ({ items: [marker], ...markerPoint(marker) }));
+
+  const circlePoint = circle ? project(circle.center.latitude, circle.center.longitude, zoom) : { x: 0, y: 0 };
+  const circleRadiusPx = circle ? (circle.radiusKm * 1000) / metersPerPixel(circle.center.latitude, zoom) : 0;
+
+  // Stretch the current tiles around the fingers until the pinch ends and the new zoom loads
+  const pinchTransform = pinch
+    ? [
+        { translateX: pinch.x * (1 - pinch.scale) },
+        { translateY: pinch.y * (1 - pinch.scale) },
+        { scale: pinch.scale },
+      ]
+    : undefined;
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      <View style={[StyleSheet.absoluteFill, pinchTransform && { transform: pinchTransform }]} pointerEvents="none">
+        {tiles.map(tile => (
+          <Image
+            key={tile.key}
+            source={{ uri: tile.url, headers: tileHeaders }}
+            style={[styles.tile, { left: tile.x, top: tile.y }]}
+            cachePolicy="memory-disk"
+          />
+        ))}
+      </View>
+
+      {/* Touch layer on top of the tiles so tap positions are relative to the map */}
+      <View style={StyleSheet.absoluteFill} {...panResponder.panHandlers} />
+
+      {!pinch && circle && circleRadiusPx > 0 && circleRadiusPx < MAX_CIRCLE_RADIUS_PX && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.circle,
+            {
+              left: circlePoint.x - left - circleRadiusPx,
+              top: circlePoint.y - top - circleRadiusPx,
+              width: circleRadiusPx * 2,
+              height: circleRadiusPx * 2,
+              borderRadius: circleRadiusPx,
+            },
+          ]}
+        />
+      )}
+
+      {!pinch && clusters.map(cluster => {
+        const x = cluster.x - left;
+        const y = cluster.y - top;
+
+        if (cluster.items.length > 1) {
+          const colors = new Set(cluster.items.map(marker => marker.color || '#2D3F1F'));
+          const color = colors.size === 1 ? cluster.items[0].color || '#2D3F1F' : '#3A5129';
+
+          return (
+            <Pressable
+              key={`cluster-${cluster.items[0].id}`}
+              style={[styles.cluster, { left: x - 16, top: y - 16, backgroundColor: color }]}
+              onPress={() => handleClusterPress(cluster.x, cluster.y, cluster.items.map(marker => marker.id))}
+            >
+              <Text style={styles.clusterText}>{cluster.items.length}</Text>
+            </Pressable>
+          );
+        }
+
+        const marker = cluster.items[0];
+        const isSelected = marker.id === selectedMarkerId;
+
+        if (marker.imageUrl) {
+          const thumbSize = isSelected ? 48 : 38;
+          return (
+            <Pressable
+              key={marker.id}
+              style={[styles.marker, { left: x - thumbSize / 2, top: y - thumbSize / 2 }, isSelected && styles.markerSelected]}
+              onPress={() => onMarkerPress?.(marker.id)}
+              disabled={!onMarkerPress}
+            >
+              <Image
+                source={{ uri: marker.imageUrl }}
+                style={[
+                  styles.thumbnail,
+                  { width: thumbSize, height: thumbSize, borderRadius: thumbSize / 2, borderColor: marker.color || '#2D3F1F' },
+                ]}
+                contentFit="cover"
+                cachePolicy="memory-disk"
+              />
+              {marker.count !== undefined && marker.count > 1 && (
+                <View style={[styles.countBadge, { backgroundColor: marker.color || '#2D3F1F' }]}>
+                  <Text style={styles.countBadgeText}>{marker.count}</Text>
+                </View>
+              )}
+            </Pressable>
+          );
+        }
+
+        const pinSize = isSelected ? 34 : 24;
+
+        return (
+          <Pressable
+            key={marker.id}
+            style={[styles.marker, { left: x - pinSize / 2, top: y - pinSize }, isSelected && styles.markerSelected]}
+            onPress={() => onMarkerPress?.(marker.id)}
+            disabled={!onMarkerPress}
+            hitSlop={{ top: 6, right: 6, bottom: 6, left: 6 }}
+          >
+            <MapPin size={pinSize} color="#FFFFFF" fill={marker.color || '#2D3F1F'} />
+          </Pressable>
+        );
+      })}
+
+      <View style={styles.zoomControls}>
+        <Pressable style={styles.zoomButton} onPress={() => changeZoom(1)} disabled={zoom >= MAX_ZOOM}>
+          <Plus size={18} color="#2D3F1F" />
+        </Pressable>
+        <Pressable style={styles.zoomButton} onPress={() => changeZoom(-1)} disabled={zoom <= MIN_ZOOM}>
+          <Minus size={18} color="#2D3F1F" />
+        </Pressable>
+      </View>
+
+      <Text style={styles.attribution}>{MAP_ATTRIBUTION}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    borderRadius: 12,
+    backgroundColor: '#E1E2DE',
+  },
+  tile: {
+    position: 'absolute',
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+  },
+  marker: {
+    position: 'absolute',
+  },
+  markerSelected: {
+    zIndex: 1,
+  },
+  thumbnail: {
+    borderWidth: 2,
+    backgroundColor: '#F5F6F3',
+  },
+  countBadge: {
+    position: 'absolute',
+    right: -4,
+    top: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  cluster: {
+    position: 'absolute',
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  circle: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: 'rgba(45, 63, 31, 0.6)',
+    backgroundColor: 'rgba(45, 63, 31, 0.08)',
+  },
+  zoomControls: {
+    position: 'absolute',
+    right: 8,
+    top: 8,
+    gap: 6,
+  },
+  zoomButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: 8,
+    padding: 6,
+  },
+  attribution: {
+    position: 'absolute',
+    right: 4,
+    bottom: 2,
+    fontSize: 9,
+    color: '#666',
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    paddingHorizontal: 4,
+  },
+});
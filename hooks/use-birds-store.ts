@@ -1,56 +1,102 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { BirdObservation, LocationState, Hotspot } from '@/types/birds';
+import { BirdObservation, LocationState, Hotspot, BirdInfo, BirdAudioRecording, SeasonalSpeciesStats, ActivityProfiles } from '@/types/birds';
+import { EBirdRegion } from '@/types/ebird';
+import { BoundingBox } from '@/utils/geo';
+import { DEFAULT_SEARCH_RADIUS_MILES } from '@/utils/search-radius';
 
 interface BirdsStore {
+  observations: BirdObservation[]; // raw eBird reports, kept so the list can be re-scored
   birds: BirdObservation[];
   filteredBirds: BirdObservation[];
+  notableBirds: BirdObservation[]; // raw notable/rare reports for the current search
+  seasonalStats: Record<string, SeasonalSpeciesStats>; // past-year frequencies by speciesCode
+  activityProfiles: ActivityProfiles | null; // hour-of-day reports from recent local checklists
   isLoading: boolean;
   error: string | null;
-  location: LocationState | null;
+  location: LocationState | null; // where the user is: the device's position or a saved place
+  searchCenter: LocationState | null; // middle of the searched region; null for radius searches
+  searchBounds: BoundingBox | null; // extent of the searched region, for fitting maps to it
   searchRadius: number; // in miles
+  searchRegion: EBirdRegion | null; // search a whole eBird region instead of a radius
   resultsLimit: number | null; // null means "all"
   hotspotsLimit: number | null; // null means "all"
   birdImages: Record<string, string[]>; // Map of speciesCode to array of image URLs
   hotspots: Hotspot[];
   isLoadingHotspots: boolean;
+  birdsFetchedAt: number | null; // when the sightings were fetched from eBird
+  hotspotsFetchedAt: number | null; // when the hotspots were fetched from eBird
+  isOffline: boolean; // last network request failed - showing saved data
+  birdInfo: Record<string, BirdInfo>; // Map of speciesCode to Wikipedia info, kept for offline use
+  birdAudio: Record<string, BirdAudioRecording[]>; // Map of speciesCode to recording metadata
   
   setSearchRadius: (radius: number) => void;
+  setSearchRegion: (region: EBirdRegion | null) => void;
   setResultsLimit: (limit: number | null) => void;
   setHotspotsLimit: (limit: number | null) => void;
   setLocation: (location: LocationState) => void;
+  setSearchCenter: (searchCenter: LocationState | null) => void;
+  setSearchBounds: (searchBounds: BoundingBox | null) => void;
+  setObservations: (observations: BirdObservation[]) => void;
   setBirds: (birds: BirdObservation[]) => void;
   setFilteredBirds: (birds: BirdObservation[]) => void;
+  setNotableBirds: (birds: BirdObservation[]) => void;
+  setSeasonalStats: (stats: Record<string, SeasonalSpeciesStats>) => void;
+  setActivityProfiles: (profiles: ActivityProfiles | null) => void;
   setIsLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
   setBirdImages: (images: Record<string, string[]>) => void;
   addBirdImages: (images: Record<string, string[]>) => void;
   setHotspots: (hotspots: Hotspot[]) => void;
   setIsLoadingHotspots: (isLoading: boolean) => void;
+  setBirdsFetchedAt: (fetchedAt: number | null) => void;
+  setHotspotsFetchedAt: (fetchedAt: number | null) => void;
+  setIsOffline: (isOffline: boolean) => void;
+  addBirdInfo: (info: Record<string, BirdInfo>) => void;
+  addBirdAudio: (audio: Record<string, BirdAudioRecording[]>) => void;
 }
 
 export const useBirdsStore = create<BirdsStore>()(
   persist(
     (set, get) => ({
+      observations: [],
       birds: [],
       filteredBirds: [],
+      notableBirds: [],
+      seasonalStats: {},
+      activityProfiles: null,
       isLoading: false,
       error: null,
       location: null,
-      searchRadius: 5, // Default to 5 miles
+      searchCenter: null,
+      searchBounds: null,
+      searchRadius: DEFAULT_SEARCH_RADIUS_MILES,
+      searchRegion: null,
       resultsLimit: 25, // Default to 25 results
       hotspotsLimit: 10, // Default to 10 hotspots (changed from 5)
       birdImages: {},
       hotspots: [],
       isLoadingHotspots: false,
+      birdsFetchedAt: null,
+      hotspotsFetchedAt: null,
+      isOffline: false,
+      birdInfo: {},
+      birdAudio: {},
       
       setSearchRadius: (radius) => set({ searchRadius: radius }),
+      setSearchRegion: (searchRegion) => set({ searchRegion }),
       setResultsLimit: (limit) => set({ resultsLimit: limit }),
       setHotspotsLimit: (limit) => set({ hotspotsLimit: limit }),
       setLocation: (location) => set({ location }),
+      setSearchCenter: (searchCenter) => set({ searchCenter }),
+      setSearchBounds: (searchBounds) => set({ searchBounds }),
+      setObservations: (observations) => set({ observations }),
       setBirds: (birds) => set({ birds, filteredBirds: birds }),
       setFilteredBirds: (filteredBirds) => set({ filteredBirds }),
+      setNotableBirds: (notableBirds) => set({ notableBirds }),
+      setSeasonalStats: (seasonalStats) => set({ seasonalStats }),
+      setActivityProfiles: (activityProfiles) => set({ activityProfiles }),
       setIsLoading: (isLoading) => set({ isLoading }),
       setError: (error) => set({ error }),
       setBirdImages: (images) => set({ birdImages: images }),
@@ -59,16 +105,49 @@ export const useBirdsStore = create<BirdsStore>()(
       })),
       setHotspots: (hotspots) => set({ hotspots }),
       setIsLoadingHotspots: (isLoadingHotspots) => set({ isLoadingHotspots }),
+      setBirdsFetchedAt: (birdsFetchedAt) => set({ birdsFetchedAt }),
+      setHotspotsFetchedAt: (hotspotsFetchedAt) => set({ hotspotsFetchedAt }),
+      setIsOffline: (isOffline) => set({ isOffline }),
+      addBirdInfo: (info) => set((state) => ({ 
+        birdInfo: { ...state.birdInfo, ...info } 
+      })),
+      addBirdAudio: (audio) => set((state) => ({ 
+        birdAudio: { ...state.birdAudio, ...audio } 
+      })),
     }),
     {
       name: 'birds-storage',
       storage: createJSONStorage(() => AsyncStorage),
       partialize: (state) => ({ 
         searchRadius: state.searchRadius,
+        searchRegion: state.searchRegion,
         resultsLimit: state.resultsLimit,
         hotspotsLimit: state.hotspotsLimit,
         birdImages: state.birdImages, // Persist bird images to avoid refetching
+        // Last successful results, so the app still works without signal
+        observations: state.observations,
+        birds: state.birds,
+        notableBirds: state.notableBirds,
+        seasonalStats: state.seasonalStats,
+        activityProfiles: state.activityProfiles,
+        hotspots: state.hotspots,
+        location: state.location,
+        searchCenter: state.searchCenter,
+        searchBounds: state.searchBounds,
+        birdsFetchedAt: state.birdsFetchedAt,
+        hotspotsFetchedAt: state.hotspotsFetchedAt,
+        birdInfo: state.birdInfo,
+        birdAudio: state.birdAudio,
       }),
+      // filteredBirds isn't persisted - rebuild it from the saved birds
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<BirdsStore>;
+        return {
+          ...currentState,
+          ...persisted,
+          filteredBirds: persisted.birds || currentState.filteredBirds,
+        };
+      },
     }
   )
 );
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BirdObservation } from '@/types/birds';
+import { Checklist, ChecklistProtocol } from '@/types/checklist';
+
+interface StartChecklistOptions {
+  locName: string;
+  lat: number;
+  lng: number;
+  regionCode: string | null;
+}
+
+interface ChecklistState {
+  activeChecklist: Checklist | null; // the checklist being recorded right now
+  checklists: Checklist[]; // finished checklists, newest first
+
+  startChecklist: (options: StartChecklistOptions) => void;
+  adjustCount: (bird: BirdObservation, delta: number) => void;
+  addDistance: (miles: number) => void;
+  setProtocol: (protocol: ChecklistProtocol) => void;
+  updateActiveChecklist: (changes: Partial<Pick<Checklist, 'locName' | 'numObservers' | 'allObservationsReported' | 'comments'>>) => void;
+  finishChecklist: () => void;
+  discardChecklist: () => void;
+  deleteChecklist: (id: string) => void;
+}
+
+export const useChecklistStore = create<ChecklistState>()(
+  persist(
+    (set) => ({
+      activeChecklist: null,
+      checklists: [],
+
+      startChecklist: ({ locName, lat, lng, regionCode }) => set({
+        activeChecklist: {
+          id: `checklist-${Date.now()}`,
+          startedAt: Date.now(),
+          endedAt: null,
+          locName,
+          lat,
+          lng,
+          regionCode,
+          protocol: 'Traveling',
+          numObservers: 1,
+          distanceMiles: 0,
+          allObservationsReported: true,
+          comments: '',
+          entries: {},
+        },
+      }),
+      adjustCount: (bird, delta) => set((state) => {
+        if (!state.activeChecklist) return state;
+
+        const existing = state.activeChecklist.entries[bird.speciesCode];
+        const count = Math.max(0, (existing?.count || 0) + delta);
+
+        return {
+          activeChecklist: {
+            ...state.activeChecklist,
+            entries: {
+              ...state.activeChecklist.entries,
+              [bird.speciesCode]: existing
+                ? { ...existing, count }
+                : { speciesCode: bird.speciesCode, comName: bird.comName, sciName: bird.sciName, count },
+            },
+          },
+        };
+      }),
+      addDistance: (miles) => set((state) => state.activeChecklist ? {
+        activeChecklist: {
+          ...state.activeChecklist,
+          distanceMiles: state.activeChecklist.distanceMiles + miles,
+        },
+      } : state),
+      setProtocol: (protocol) => set((state) => state.activeChecklist ? {
+        activeChecklist: { ...state.activeChecklist, protocol },
+      } : state),
+      updateActiveChecklist: (changes) => set((state) => state.activeChecklist ? {
+        activeChecklist: { ...state.activeChecklist, ...changes },
+      } : state),
+      finishChecklist: () => set((state) => {
+        if (!state.activeChecklist) return state;
+        return {
+          activeChecklist: null,
+          checklists: [{ ...state.activeChecklist, endedAt: Date.now() }, ...state.checklists],
+        };
+      }),
+      discardChecklist: () => set({ activeChecklist: null }),
+      deleteChecklist: (id) => set((state) => ({
+        checklists: state.checklists.filter(checklist => checklist.id !== id),
+      })),
+    }),
+    {
+      name: 'checklist-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
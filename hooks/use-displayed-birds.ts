@@ -0,0 +1,55 @@
+import { useMemo } from 'react';
+import { BirdObservation } from '@/types/birds';
+import { useBirdsStore } from '@/hooks/use-birds-store';
+import { useFilterStore } from '@/hooks/use-filter-store';
+import { useLifeListStore } from '@/hooks/use-life-list-store';
+
+// The nearby birds as the user sees them: sorted by their filter settings and
+// trimmed to the results limit. Shared by the main list and the checklist recorder.
+export function useDisplayedBirds(): BirdObservation[] {
+  const { filteredBirds, resultsLimit } = useBirdsStore();
+  const { sortBy, sortDirection } = useFilterStore();
+  const lifeList = useLifeListStore((state) => state.entries);
+
+  return useMemo(() => {
+    if (!filteredBirds.length) return [];
+    
+    // First sort the birds - notable (rare) birds always lead the list
+    const sorted = [...filteredBirds].sort((a, b) => {
+      if (!!a.isNotable !== !!b.isNotable) {
+        return a.isNotable ? -1 : 1;
+      }
+      
+      // Species missing from the life list come first, whichever way the likelihood runs
+      if (sortBy === 'lifers') {
+        const aIsLifer = !lifeList[a.speciesCode];
+        const bIsLifer = !lifeList[b.speciesCode];
+        if (aIsLifer !== bIsLifer) {
+          return aIsLifer ? -1 : 1;
+        }
+      }
+      
+      let comparison = 0;
+      
+      if (sortBy === 'likelihood' || sortBy === 'lifers') {
+        // Ensure we're comparing valid numbers
+        const aLikelihood = a.likelihood !== undefined && !isNaN(a.likelihood) ? a.likelihood : 0;
+        const bLikelihood = b.likelihood !== undefined && !isNaN(b.likelihood) ? b.likelihood : 0;
+        comparison = aLikelihood - bLikelihood;
+      } else if (sortBy === 'name') {
+        comparison = a.comName.localeCompare(b.comName);
+      } else if (sortBy === 'date') {
+        comparison = new Date(a.obsDt).getTime() - new Date(b.obsDt).getTime();
+      }
+      
+      return sortDirection === 'asc' ? comparison : -comparison;
+    });
+    
+    // Then limit the results if needed
+    if (resultsLimit !== null) {
+      return sorted.slice(0, resultsLimit);
+    }
+    
+    return sorted;
+  }, [filteredBirds, sortBy, sortDirection, resultsLimit, lifeList]);
+}
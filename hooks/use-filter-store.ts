@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-export type SortOption = 'likelihood' | 'name' | 'date';
+export type SortOption = 'likelihood' | 'name' | 'date' | 'lifers';
 export type SortDirection = 'asc' | 'desc';
 
 interface FilterState {
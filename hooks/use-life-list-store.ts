@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LifeListEntry } from '@/types/birds';
+
+interface LifeListState {
+  entries: Record<string, LifeListEntry>; // Map of speciesCode to life list entry
+  markSeen: (entry: LifeListEntry) => void;
+  importEntries: (entries: LifeListEntry[]) => void;
+  updateNotes: (speciesCode: string, notes: string) => void;
+  removeSpecies: (speciesCode: string) => void;
+}
+
+export const useLifeListStore = create<LifeListState>()(
+  persist(
+    (set) => ({
+      entries: {},
+
+      // Keep the earliest sighting if the species is already on the list
+      markSeen: (entry) => set((state) => {
+        const existing = state.entries[entry.speciesCode];
+        if (existing && existing.firstSeenDate <= entry.firstSeenDate) {
+          return state;
+        }
+        return { entries: { ...state.entries, [entry.speciesCode]: entry } };
+      }),
+      // Bulk version of markSeen for imports
+      importEntries: (incoming) => set((state) => {
+        const entries = { ...state.entries };
+        incoming.forEach(entry => {
+          const existing = entries[entry.speciesCode];
+          if (!existing || entry.firstSeenDate < existing.firstSeenDate) {
+            entries[entry.speciesCode] = { ...entry, notes: existing?.notes ?? entry.notes };
+          }
+        });
+        return { entries };
+      }),
+      updateNotes: (speciesCode, notes) => set((state) => {
+        const existing = state.entries[speciesCode];
+        if (!existing) return state;
+        return { entries: { ...state.entries, [speciesCode]: { ...existing, notes } } };
+      }),
+      removeSpecies: (speciesCode) => set((state) => {
+        const { [speciesCode]: _removed, ...rest } = state.entries;
+        return { entries: rest };
+      }),
+    }),
+    {
+      name: 'life-list-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
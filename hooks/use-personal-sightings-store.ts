@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { PersonalSighting } from '@/types/birds';
+import { sightingKey } from '@/utils/ebird-import';
+import { chunkedStorage } from '@/utils/chunked-storage';
+
+interface PersonalSightingsState {
+  sightings: PersonalSighting[]; // the user's own records, e.g. from an eBird data import
+  lastImportedAt: number | null;
+  addSightings: (sightings: PersonalSighting[]) => void;
+  clearSightings: () => void;
+}
+
+export const usePersonalSightingsStore = create<PersonalSightingsState>()(
+  persist(
+    (set) => ({
+      sightings: [],
+      lastImportedAt: null,
+
+      // Re-importing the same export only adds checklists we haven't seen
+      addSightings: (incoming) => set((state) => {
+        const known = new Set(state.sightings.map(s => sightingKey(s.subId, s.speciesCode)));
+        const added = incoming.filter(s => !known.has(sightingKey(s.subId, s.speciesCode)));
+        return {
+          sightings: [...state.sightings, ...added],
+          lastImportedAt: Date.now(),
+        };
+      }),
+      clearSightings: () => set({ sightings: [], lastImportedAt: null }),
+    }),
+    {
+      name: 'personal-sightings-storage',
+      storage: createJSONStorage(() => chunkedStorage), // years of records outgrow a single entry
+    }
+  )
+);
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedPlace, LocationState } from '@/types/birds';
+
+interface PlacesState {
+  places: SavedPlace[];
+  selectedPlaceId: string | null; // null means use the device's GPS position
+  addPlace: (name: string, location: LocationState) => SavedPlace;
+  renamePlace: (id: string, name: string) => void;
+  removePlace: (id: string) => void;
+  selectPlace: (id: string | null) => void;
+}
+
+export const usePlacesStore = create<PlacesState>()(
+  persist(
+    (set) => ({
+      places: [],
+      selectedPlaceId: null,
+
+      addPlace: (name, location) => {
+        const place: SavedPlace = {
+          id: `place-${Date.now()}`,
+          name: name.trim() || 'Saved place',
+          latitude: location.latitude,
+          longitude: location.longitude,
+        };
+        set((state) => ({ places: [...state.places, place] }));
+        return place;
+      },
+      renamePlace: (id, name) => set((state) => ({
+        places: state.places.map(place => (place.id === id ? { ...place, name } : place)),
+      })),
+      // Fall back to GPS if the place being removed was selected
+      removePlace: (id) => set((state) => ({
+        places: state.places.filter(place => place.id !== id),
+        selectedPlaceId: state.selectedPlaceId === id ? null : state.selectedPlaceId,
+      })),
+      selectPlace: (selectedPlaceId) => set({ selectedPlaceId }),
+    }),
+    {
+      name: 'places-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
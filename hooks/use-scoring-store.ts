@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScoringConfig, ScoringWeights, DEFAULT_SCORING_CONFIG, SCORING_PRESETS } from '@/utils/bird-scoring';
+
+interface ScoringState {
+  config: ScoringConfig;
+  presetId: string | null; // null once the user has tweaked the values by hand
+  seasonalEnabled: boolean; // blend in past years' reports for the same weeks
+  activityEnabled: boolean; // adjust for how active each species is at the target hour
+  plannedHour: number | null; // 0-23, or null for "right now"
+  applyPreset: (presetId: string) => void;
+  setWeight: (component: keyof ScoringWeights, value: number) => void;
+  setRecencyDecay: (decayPerDay: number) => void;
+  setSeasonalWeight: (weight: number) => void;
+  setSeasonalEnabled: (enabled: boolean) => void;
+  setActivityEnabled: (enabled: boolean) => void;
+  setPlannedHour: (hour: number | null) => void;
+  resetScoring: () => void;
+}
+
+const DEFAULT_PRESET_ID = 'balanced';
+
+export const useScoringStore = create<ScoringState>()(
+  persist(
+    (set) => ({
+      config: DEFAULT_SCORING_CONFIG,
+      presetId: DEFAULT_PRESET_ID,
+      seasonalEnabled: false,
+      activityEnabled: false,
+      plannedHour: null,
+
+      applyPreset: (presetId) => {
+        const preset = SCORING_PRESETS.find(p => p.id === presetId);
+        if (preset) {
+          set({ config: preset.config, presetId });
+        }
+      },
+      setWeight: (component, value) => set((state) => ({
+        config: {
+          ...state.config,
+          weights: { ...state.config.weights, [component]: Math.max(0, value) },
+        },
+        presetId: null,
+      })),
+      setRecencyDecay: (decayPerDay) => set((state) => ({
+        config: { ...state.config, recencyDecayPerDay: Math.max(0, decayPerDay) },
+        presetId: null,
+      })),
+      setSeasonalWeight: (weight) => set((state) => ({
+        config: { ...state.config, seasonalWeight: Math.min(1, Math.max(0, weight)) },
+        presetId: null,
+      })),
+      setSeasonalEnabled: (seasonalEnabled) => set({ seasonalEnabled }),
+      setActivityEnabled: (activityEnabled) => set({ activityEnabled }),
+      setPlannedHour: (plannedHour) => set({ plannedHour }),
+      resetScoring: () => set({
+        config: DEFAULT_SCORING_CONFIG,
+        presetId: DEFAULT_PRESET_ID,
+        seasonalEnabled: false,
+        activityEnabled: false,
+        plannedHour: null,
+      }),
+    }),
+    {
+      name: 'scoring-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Fill in components added since the settings were saved
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<ScoringState> | undefined;
+        return {
+          ...currentState,
+          ...persisted,
+          config: {
+            ...DEFAULT_SCORING_CONFIG,
+            ...persisted?.config,
+            weights: { ...DEFAULT_SCORING_CONFIG.weights, ...persisted?.config?.weights },
+          },
+        };
+      },
+    }
+  )
+);
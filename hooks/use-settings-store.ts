@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UnitSystem } from '@/utils/geo';
+
+interface SettingsState {
+  apiKeyOverride: string | null; // null means use the key from app config
+  verifiedApiKey: string | null; // last key eBird accepted, so we only validate once
+  units: UnitSystem; // how distances and radii are shown - stored values stay in miles/km
+  tileLargeSearches: boolean; // split radii over eBird's 50 km limit into several queries
+  setApiKeyOverride: (apiKey: string | null) => void;
+  setVerifiedApiKey: (apiKey: string | null) => void;
+  setUnits: (units: UnitSystem) => void;
+  setTileLargeSearches: (tileLargeSearches: boolean) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      apiKeyOverride: null,
+      verifiedApiKey: null,
+      units: 'imperial',
+      tileLargeSearches: false,
+
+      setApiKeyOverride: (apiKey) => set({
+        apiKeyOverride: apiKey && apiKey.trim() ? apiKey.trim() : null,
+      }),
+      setVerifiedApiKey: (verifiedApiKey) => set({ verifiedApiKey }),
+      setUnits: (units) => set({ units }),
+      setTileLargeSearches: (tileLargeSearches) => set({ tileLargeSearches }),
+    }),
+    {
+      name: 'settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
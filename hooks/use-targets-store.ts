@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TargetSpecies } from '@/types/birds';
+
+interface TargetsState {
+  targets: TargetSpecies[]; // species the user is hoping to find, in the order picked
+  addTarget: (species: TargetSpecies) => void;
+  removeTarget: (speciesCode: string) => void;
+  clearTargets: () => void;
+}
+
+export const useTargetsStore = create<TargetsState>()(
+  persist(
+    (set) => ({
+      targets: [],
+
+      addTarget: (species) => set((state) =>
+        state.targets.some(target => target.speciesCode === species.speciesCode)
+          ? state
+          : { targets: [...state.targets, species] }
+      ),
+      removeTarget: (speciesCode) => set((state) => ({
+        targets: state.targets.filter(target => target.speciesCode !== speciesCode),
+      })),
+      clearTargets: () => set({ targets: [] }),
+    }),
+    {
+      name: 'targets-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
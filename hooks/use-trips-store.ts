@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TripPlan } from '@/types/birds';
+
+interface TripsState {
+  trips: TripPlan[]; // newest first
+  saveTrip: (trip: Omit<TripPlan, 'id' | 'createdAt'>) => TripPlan;
+  removeTrip: (id: string) => void;
+}
+
+export const useTripsStore = create<TripsState>()(
+  persist(
+    (set) => ({
+      trips: [],
+
+      saveTrip: (trip) => {
+        const saved: TripPlan = {
+          ...trip,
+          id: `trip-${Date.now()}`,
+          name: trip.name.trim() || 'Birding trip',
+          createdAt: Date.now(),
+        };
+        set((state) => ({ trips: [saved, ...state.trips] }));
+        return saved;
+      },
+      removeTrip: (id) => set((state) => ({
+        trips: state.trips.filter(trip => trip.id !== id),
+      })),
+    }),
+    {
+      name: 'trips-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -12,6 +12,82 @@ export interface BirdObservation {
   obsReviewed: boolean;
   locationPrivate: boolean;
   likelihood?: number;
+  likelihoodBreakdown?: LikelihoodBreakdown; // how the likelihood was put together
+  isNotable?: boolean; // reported as rare/notable for the area by eBird
+  seasonalFrequency?: number; // 0-1, share of the same weeks in past years with reports
+  isExpected?: boolean; // usually around this time of year but not reported recently
+  activityFactor?: number; // time-of-day multiplier applied to the likelihood
+}
+
+// One of the user's own sightings, e.g. imported from their eBird data
+export interface PersonalSighting extends BirdObservation {
+  subId: string; // eBird checklist (submission) ID
+}
+
+// Component scores behind a likelihood, plus the observation counts they came from
+export interface LikelihoodBreakdown {
+  frequencyScore: number; // share of reports vs the most reported species
+  recencyScore: number; // how recent the reports are
+  volumeScore: number; // how many individuals were counted
+  consistencyScore: number; // reports spread over the period
+  distanceScore: number; // how close the nearest report is to the user
+  sightings: number; // reports of this species
+  maxSightings: number; // reports of the most reported species
+  totalCount: number; // individuals counted across reports ('X' counts as 25)
+  maxTotalCount: number; // individuals of the most counted species
+  daysSinceLastSeen: number;
+  reportSpanDays: number; // days between the first and last report
+  nearestDistanceKm: number | null; // null when the user's location wasn't known
+  rawTotal: number; // sum of the components before rounding and the 99 cap
+}
+
+// A species the user wants to find, used to rank hotspots
+export interface TargetSpecies {
+  speciesCode: string;
+  comName: string;
+  sciName: string;
+}
+
+// A saved multi-hotspot birding route
+export interface TripPlan {
+  id: string;
+  name: string;
+  createdAt: number;
+  start: LocationState;
+  stops: Hotspot[]; // in visiting order
+  totalMiles: number;
+  expectedSpecies: number | null; // null until the stops' recent reports have loaded
+}
+
+// A named location the user can search from instead of their GPS position
+export interface SavedPlace extends LocationState {
+  id: string;
+  name: string;
+}
+
+// How often a species was reported during this calendar window in past years
+export interface SeasonalSpeciesStats {
+  daysReported: number; // sampled days with at least one report
+  daysSampled: number;
+  sample: BirdObservation; // most recent historic report, used for names and codes
+}
+
+// Time-of-day effort and reports from recent checklists, for the activity model
+export interface ActivityProfiles {
+  checklistsByHour: number[]; // timed checklists started in each hour, 24 buckets
+  reportsByHour: Record<string, number[]>; // checklists reporting each species, by speciesCode
+}
+
+// A species on the user's personal life list
+export interface LifeListEntry {
+  speciesCode: string;
+  comName: string;
+  sciName: string;
+  firstSeenDate: string; // YYYY-MM-DD
+  locName?: string;
+  lat?: number;
+  lng?: number;
+  notes?: string;
 }
 
 export interface LocationState {
@@ -19,6 +95,26 @@ export interface LocationState {
   longitude: number;
 }
 
+// Species background pulled from Wikipedia by fetchBirdInfo
+export interface BirdInfo {
+  description?: string | null;
+  wikipediaUrl?: string | null;
+  habitat?: string;
+  diet?: string;
+  behavior?: string;
+  audioUrl?: string;
+}
+
+// Recording metadata from Xeno-Canto
+export interface BirdAudioRecording {
+  url: string;
+  type: string;
+  recordist: string;
+  country: string;
+  license: string;
+  quality: string;
+}
+
 export interface BirdFieldMarks {
   size?: string;
   shape?: string;
@@ -70,10 +166,11 @@ export interface BirdIdentificationInfo {
 export interface Hotspot {
   locId: string;
   locName: string;
-  latitude: number;
-  longitude: number;
+  lat: number;
+  lng: number;
   countryCode: string;
   subnational1Code: string;
+  subnational2Code?: string;
   latestObsDt?: string;
   numSpeciesAllTime?: number;
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+// eBird protocols we can record from the app
+export type ChecklistProtocol = 'Traveling' | 'Stationary' | 'Incidental';
+
+export interface ChecklistSpeciesEntry {
+  speciesCode: string;
+  comName: string;
+  sciName: string;
+  count: number;
+  comments?: string;
+}
+
+// A checklist recorded in the field, shaped after eBird's record format
+export interface Checklist {
+  id: string;
+  startedAt: number; // epoch ms
+  endedAt: number | null; // null while the checklist is still being recorded
+  locName: string;
+  lat: number;
+  lng: number;
+  regionCode: string | null; // e.g. US-NY-109, used for the state/country columns
+  protocol: ChecklistProtocol;
+  numObservers: number;
+  distanceMiles: number; // distance walked while recording
+  allObservationsReported: boolean; // complete checklist - every species detected was entered
+  comments: string;
+  entries: Record<string, ChecklistSpeciesEntry>; // Map of speciesCode to count
+}
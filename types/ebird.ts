@@ -0,0 +1,135 @@
+import { BirdObservation, Hotspot } from './birds';
+
+// Request parameters for data/obs/geo/recent
+export interface RecentObservationsQuery {
+  lat: number;
+  lng: number;
+  distKm: number;
+  back?: number; // days, 1-30
+  maxResults?: number | null;
+  hotspot?: boolean;
+}
+
+// Request parameters for data/nearest/geo/recent/{speciesCode}
+export interface NearestSpeciesQuery {
+  lat: number;
+  lng: number;
+  distKm?: number; // up to 50
+  back?: number; // days, 1-30
+  maxResults?: number | null;
+}
+
+// Request parameters for ref/hotspot/geo
+export interface NearbyHotspotsQuery {
+  lat: number;
+  lng: number;
+  distKm: number;
+  back?: number; // only hotspots visited within this many days
+}
+
+// Request parameters for data/obs/{regionCode}/historic/{y}/{m}/{d}
+export interface HistoricObservationsQuery {
+  regionCode: string; // country, state or county code, e.g. US-NY-109
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+// Request parameters for data/obs/{regionCode}/recent
+export interface RegionalObservationsQuery {
+  regionCode: string;
+  back?: number; // days, 1-30
+  maxResults?: number | null;
+}
+
+// Levels of the eBird region hierarchy below the world
+export type RegionType = 'country' | 'subnational1' | 'subnational2';
+
+// An entry from ref/region/list/{regionType}/{parentRegionCode}
+export interface EBirdRegion {
+  code: string; // e.g. US, US-NY, US-NY-047
+  name: string;
+}
+
+// Result of ref/region/info/{regionCode}
+export interface EBirdRegionInfo {
+  result: string; // full display name, e.g. "Kings, New York, US"
+  bounds?: {
+    minX: number; // longitudes
+    maxX: number;
+    minY: number; // latitudes
+    maxY: number;
+  };
+}
+
+// An entry from ref/taxonomy/ebird
+export interface EBirdTaxon {
+  sciName: string;
+  comName: string;
+  speciesCode: string;
+  category: string; // species, issf, form, spuh, slash, hybrid, domestic, intergrade
+  taxonOrder: number;
+  reportAs?: string; // species code a subspecies group rolls up to
+}
+
+// Result of ref/hotspot/info/{locId}
+export interface EBirdHotspotInfo {
+  locId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  subnational1Code: string;
+  subnational2Code?: string;
+}
+
+// Location block embedded in product/lists results
+export interface EBirdChecklistLocation {
+  locId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  countryCode: string;
+  subnational1Code: string;
+  subnational2Code?: string;
+  isHotspot: boolean;
+}
+
+// A single entry from product/lists (recent checklists feed)
+export interface EBirdChecklistSummary {
+  locId: string;
+  subId: string;
+  userDisplayName: string;
+  numSpecies: number;
+  obsDt: string;
+  obsTime?: string;
+  isoObsDate?: string;
+  loc?: EBirdChecklistLocation;
+}
+
+// One species line on a checklist from product/checklist/view/{subId}
+export interface EBirdChecklistObservation {
+  speciesCode: string;
+  howManyStr: string; // a number, or "X" when not counted
+}
+
+// Full checklist from product/checklist/view/{subId}
+export interface EBirdChecklistDetail {
+  subId: string;
+  locId: string;
+  obsDt: string; // e.g. "2024-05-04 07:15"
+  obs: EBirdChecklistObservation[];
+}
+
+// Response models returned by the client
+export type RecentObservationsResponse = BirdObservation[];
+export type NotableObservationsResponse = BirdObservation[];
+export type NearestSpeciesResponse = BirdObservation[];
+export type HistoricObservationsResponse = BirdObservation[];
+export type NearbyHotspotsResponse = Hotspot[];
+export type ChecklistFeedResponse = EBirdChecklistSummary[];
+export type SpeciesListResponse = string[]; // species codes
+export type TaxonomyResponse = EBirdTaxon[];
+export type RegionalObservationsResponse = BirdObservation[];
+export type RegionListResponse = EBirdRegion[];
+export type RegionalHotspotsResponse = Hotspot[];
@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ebirdClient, fetchRegionInfo } from '@/utils/api';
+import { EBirdAuthError } from '@/utils/ebird-client';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('eBird key verification', () => {
+  let verifyApiKey: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.useFakeTimers(); // the response cache schedules a clean-up
+    await AsyncStorage.clear();
+    useSettingsStore.setState({ apiKeyOverride: 'key-one', verifiedApiKey: null });
+    verifyApiKey = jest.spyOn(ebirdClient, 'verifyApiKey').mockResolvedValue(true);
+    jest.spyOn(ebirdClient, 'getRegionInfo').mockResolvedValue({ result: 'Kings, New York, US' });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('checks the key once for calls made at the same time', async () => {
+    await Promise.all(['US-NY-047', 'US-NY-061', 'US-NY-081'].map(fetchRegionInfo));
+
+    expect(verifyApiKey).toHaveBeenCalledTimes(1);
+    expect(useSettingsStore.getState().verifiedApiKey).toBe('key-one');
+  });
+
+  it('checks a new key after the key changes', async () => {
+    await fetchRegionInfo('US-NY-005');
+    useSettingsStore.setState({ apiKeyOverride: 'key-two' });
+    await fetchRegionInfo('US-NY-047');
+
+    expect(verifyApiKey.mock.calls.map(([apiKey]) => apiKey)).toEqual(['key-one', 'key-two']);
+  });
+
+  it('fails every waiting call when the key is rejected, then checks again', async () => {
+    verifyApiKey.mockResolvedValueOnce(false);
+
+    const results = await Promise.allSettled(['US-NY-047', 'US-NY-061'].map(fetchRegionInfo));
+    results.forEach(result => {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(EBirdAuthError);
+    });
+    expect(verifyApiKey).toHaveBeenCalledTimes(1);
+
+    await fetchRegionInfo('US-NY-085');
+    expect(verifyApiKey).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { Checklist } from '@/types/checklist';
+import { checklistToRecordFormat } from '@/utils/checklist';
+import { parseCsv } from '@/utils/csv';
+
+const checklist = (overrides: Partial<Checklist> = {}): Checklist => ({
+  id: 'c1',
+  startedAt: new Date(2024, 4, 10, 7, 5).getTime(),
+  endedAt: new Date(2024, 4, 10, 8, 20).getTime(),
+  locName: 'Prospect Park',
+  lat: 40.66,
+  lng: -73.97,
+  regionCode: 'US-NY-047',
+  protocol: 'Traveling',
+  numObservers: 2,
+  distanceMiles: 1.5,
+  allObservationsReported: true,
+  comments: 'Sunny',
+  entries: {
+    amerob: { speciesCode: 'amerob', comName: 'American Robin', sciName: 'Turdus migratorius', count: 3 },
+  },
+  ...overrides,
+});
+
+describe('checklistToRecordFormat', () => {
+  it('writes one row in eBird record format', () => {
+    expect(checklistToRecordFormat(checklist())).toBe(
+      'American Robin,Turdus,migratorius,3,,Prospect Park,40.660000,-73.970000,05/10/2024,07:05,NY,US,Traveling,2,75,Y,1.50,,Sunny'
+    );
+  });
+
+  it('passes names and comments through exactly as entered', () => {
+    const row = checklistToRecordFormat(checklist({
+      locName: '-Pond edge',
+      comments: '=seen from the "dock", twice',
+      entries: {
+        amerob: {
+          speciesCode: 'amerob',
+          comName: 'American Robin',
+          sciName: 'Turdus migratorius',
+          count: 1,
+          comments: '@feeder +1 juvenile',
+        },
+      },
+    }));
+
+    const [fields] = parseCsv(row);
+    expect(fields[4]).toBe('@feeder +1 juvenile');
+    expect(fields[5]).toBe('-Pond edge');
+    expect(fields[18]).toBe('=seen from the "dock", twice');
+    expect(row).not.toContain("'");
+  });
+
+  it('leaves out species with no count', () => {
+    const row = checklistToRecordFormat(checklist({
+      entries: {
+        amerob: { speciesCode: 'amerob', comName: 'American Robin', sciName: 'Turdus migratorius', count: 0 },
+      },
+    }));
+    expect(row).toBe('');
+  });
+});
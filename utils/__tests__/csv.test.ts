@@ -0,0 +1,51 @@
+import { parseCsv, csvField, spreadsheetCsvField } from '@/utils/csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('name,comments\n"Smith, J.","Said ""hi""\nthen left"')).toEqual([
+      ['name', 'comments'],
+      ['Smith, J.', 'Said "hi"\nthen left'],
+    ]);
+  });
+
+  it('handles Windows line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('drops a byte order mark', () => {
+    expect(parseCsv('﻿Submission ID,Count\nS1,2')[0][0]).toBe('Submission ID');
+  });
+
+  it('keeps empty fields but skips blank rows', () => {
+    expect(parseCsv('a,,c\n,,\n\n,2,')).toEqual([['a', '', 'c'], ['', '2', '']]);
+  });
+
+  it('reads back what csvField writes', () => {
+    const values = ['plain', 'with, comma', 'with "quotes"', 'two\nlines'];
+    expect(parseCsv(values.map(csvField).join(','))).toEqual([values]);
+  });
+});
+
+describe('spreadsheetCsvField', () => {
+  it('stops spreadsheets running text as a formula', () => {
+    expect(spreadsheetCsvField('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(spreadsheetCsvField('+1 (555) 0100 ext')).toBe("'+1 (555) 0100 ext");
+    expect(spreadsheetCsvField('-Pond edge')).toBe("'-Pond edge");
+    expect(spreadsheetCsvField('@home')).toBe("'@home");
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(spreadsheetCsvField(-73.96)).toBe('-73.96');
+    expect(spreadsheetCsvField('-73.965432')).toBe('-73.965432');
+    expect(spreadsheetCsvField('Central Park')).toBe('Central Park');
+    expect(spreadsheetCsvField(null)).toBe('');
+  });
+
+  it('leaves plain csvField untouched', () => {
+    expect(csvField('-Pond edge')).toBe('-Pond edge');
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  createEBirdClient,
+  FetchLike,
+  EBirdApiError,
+  EBirdAuthError,
+  EBirdNotFoundError,
+  EBirdRateLimitError,
+  EBirdNetworkError,
+} from '@/utils/ebird-client';
+
+// Just enough of a fetch Response for the client
+const fakeResponse = (status: number, body: unknown = [], headers: Record<string, string> = {}) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: async () => body,
+  }) as unknown as Response;
+
+// A client whose requests are recorded and answered with the given response
+function clientReturning(respond: () => Promise<Response>, apiKey: string | null = 'test-key') {
+  const requests: { url: string; init?: RequestInit }[] = [];
+  const fetch: FetchLike = (url, init) => {
+    requests.push({ url, init });
+    return respond();
+  };
+
+  const client = createEBirdClient({ apiKey: () => apiKey, fetch, baseUrl: 'https://ebird.test/v2' });
+  return { client, requests };
+}
+
+const nearby = { lat: 40.7, lng: -74, distKm: 25 };
+
+describe('createEBirdClient', () => {
+  it('builds the URL and sends the key in a header', async () => {
+    const { client, requests } = clientReturning(async () => fakeResponse(200, [{ speciesCode: 'amerob' }]));
+
+    const result = await client.getRecentObservations({ ...nearby, back: 7, maxResults: 50 });
+
+    expect(result).toEqual([{ speciesCode: 'amerob' }]);
+    expect(requests[0].url).toBe(
+      'https://ebird.test/v2/data/obs/geo/recent?lat=40.7&lng=-74&back=7&dist=25&hotspot=false&maxResults=50'
+    );
+    expect(requests[0].init?.headers).toEqual({ 'X-eBirdApiToken': 'test-key' });
+  });
+
+  it('leaves out empty parameters and encodes values', async () => {
+    const { client, requests } = clientReturning(async () => fakeResponse(200));
+
+    await client.getRecentObservations(nearby);
+    await client.getTaxonomy(['amerob', 'blujay']);
+
+    expect(requests[0].url).not.toContain('maxResults');
+    expect(requests[1].url).toBe('https://ebird.test/v2/ref/taxonomy/ebird?fmt=json&locale=en&species=amerob%2Cblujay');
+  });
+
+  it.each([401, 403])('maps %i to EBirdAuthError', async status => {
+    const { client } = clientReturning(async () => fakeResponse(status));
+
+    const error = await client.getRegionInfo('US-NY').catch(err => err);
+    expect(error).toBeInstanceOf(EBirdAuthError);
+    expect(error.status).toBe(status);
+    expect(error.endpoint).toBe('ref/region/info/US-NY');
+  });
+
+  it('maps 404 to EBirdNotFoundError', async () => {
+    const { client } = clientReturning(async () => fakeResponse(404));
+    await expect(client.getChecklist('S1')).rejects.toBeInstanceOf(EBirdNotFoundError);
+  });
+
+  it('maps 429 to EBirdRateLimitError with the Retry-After delay', async () => {
+    const { client } = clientReturning(async () => fakeResponse(429, null, { 'Retry-After': '30' }));
+
+    const error = await client.getSpeciesList('US-NY').catch(err => err);
+    expect(error).toBeInstanceOf(EBirdRateLimitError);
+    expect(error.retryAfterSeconds).toBe(30);
+  });
+
+  it('maps a failed fetch to EBirdNetworkError', async () => {
+    const offline = new TypeError('Network request failed');
+    const { client } = clientReturning(() => Promise.reject(offline));
+
+    const error = await client.getNearbyHotspots(nearby).catch(err => err);
+    expect(error).toBeInstanceOf(EBirdNetworkError);
+    expect(error.cause).toBe(offline);
+  });
+
+  it('reports other failures with their status', async () => {
+    const { client } = clientReturning(async () => fakeResponse(500));
+
+    const error = await client.getRegionInfo('US-NY').catch(err => err);
+    expect(error).toBeInstanceOf(EBirdApiError);
+    expect(error).not.toBeInstanceOf(EBirdAuthError);
+    expect(error.status).toBe(500);
+  });
+
+  it('fails without calling eBird when no key is configured', async () => {
+    const { client, requests } = clientReturning(async () => fakeResponse(200), null);
+
+    const error = await client.getRegionInfo('US-NY').catch(err => err);
+    expect(error).toBeInstanceOf(EBirdAuthError);
+    expect(error.status).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  describe('verifyApiKey', () => {
+    it('resolves true for an accepted key and false for a rejected one', async () => {
+      expect(await clientReturning(async () => fakeResponse(200)).client.verifyApiKey()).toBe(true);
+      expect(await clientReturning(async () => fakeResponse(403)).client.verifyApiKey('bad-key')).toBe(false);
+    });
+
+    it('checks the key it is given instead of the configured one', async () => {
+      const { client, requests } = clientReturning(async () => fakeResponse(200));
+
+      await client.verifyApiKey('other-key');
+      expect(requests[0].init?.headers).toEqual({ 'X-eBirdApiToken': 'other-key' });
+    });
+
+    it('still throws when eBird cannot be reached', async () => {
+      const { client } = clientReturning(() => Promise.reject(new TypeError('Network request failed')));
+      await expect(client.verifyApiKey()).rejects.toBeInstanceOf(EBirdNetworkError);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { BirdObservation, Hotspot } from '@/types/birds';
+
+// Minimal records for unit tests; only the fields the code under test reads vary
+
+export const hotspot = (locId: string, lat: number = 0, lng: number = 0): Hotspot => ({
+  locId,
+  locName: locId,
+  lat,
+  lng,
+  countryCode: 'US',
+  subnational1Code: 'US-NY',
+});
+
+export const report = (speciesCode: string, obsDt: string, locId: string = 'L1'): BirdObservation => ({
+  speciesCode,
+  comName: speciesCode,
+  sciName: speciesCode,
+  locId,
+  locName: locId,
+  obsDt,
+  howMany: 1,
+  lat: 0,
+  lng: 0,
+  obsValid: true,
+  obsReviewed: false,
+  locationPrivate: false,
+});
+
+// eBird obsDt ("YYYY-MM-DD HH:mm", local time) a number of days before `now`
+export function obsDtDaysAgo(days: number, now: number): string {
+  const date = new Date(now - days * 24 * 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
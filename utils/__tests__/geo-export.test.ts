@@ -0,0 +1,54 @@
+import { toGpx, toKml, toGeoJson, GeoPoint } from '@/utils/geo-export';
+
+const points: GeoPoint[] = [
+  {
+    name: 'Pond & Marsh',
+    latitude: 40.661234,
+    longitude: -73.969876,
+    description: 'American Robin (3, 2024-05-10 07:05)',
+    time: '2024-05-10T11:05:00.000Z',
+  },
+  { name: 'Meadow', latitude: 40.67, longitude: -73.96 },
+];
+
+// Child element names of each <wpt>, in document order
+const waypointChildren = (gpx: string) =>
+  Array.from(gpx.matchAll(/<wpt[^>]*>([\s\S]*?)<\/wpt>/g)).map(([, body]) =>
+    Array.from(body.matchAll(/<(\w+)>/g)).map(([, tag]) => tag)
+  );
+
+describe('toGpx', () => {
+  it('writes waypoint children in the order GPX 1.1 requires', () => {
+    expect(waypointChildren(toGpx('Sightings', points))).toEqual([['time', 'name', 'desc'], ['name']]);
+  });
+
+  it('escapes names and rounds coordinates', () => {
+    const gpx = toGpx('Sightings', points);
+    expect(gpx).toContain('<wpt lat="40.661234" lon="-73.969876">');
+    expect(gpx).toContain('<name>Pond &amp; Marsh</name>');
+  });
+
+  it('adds a route through the points only when asked', () => {
+    expect(toGpx('Trip', points)).not.toContain('<rte>');
+
+    const route = toGpx('Trip', points, true);
+    expect(route.indexOf('<rte>')).toBeGreaterThan(route.lastIndexOf('</wpt>'));
+    expect(route.match(/<rtept /g)).toHaveLength(2);
+  });
+});
+
+describe('toKml', () => {
+  it('writes longitude before latitude', () => {
+    expect(toKml('Sightings', points)).toContain('-73.969876,40.661234');
+  });
+});
+
+describe('toGeoJson', () => {
+  it('writes a point feature per location and a line for routes', () => {
+    const collection = JSON.parse(toGeoJson('Trip', points, true));
+    const types = collection.features.map((feature: { geometry: { type: string } }) => feature.geometry.type);
+
+    expect(types.filter((type: string) => type === 'Point')).toHaveLength(2);
+    expect(types).toContain('LineString');
+  });
+});
@@ -0,0 +1,49 @@
+import { hexTileCenters, distanceKm } from '@/utils/geo';
+
+// Largest distance from any sampled point in the circle to its nearest tile center
+function worstCoverageKm(center: { latitude: number; longitude: number }, radiusKm: number, tileRadiusKm: number) {
+  const centers = hexTileCenters(center, radiusKm, tileRadiusKm);
+  const kmPerDegreeLat = 111.2;
+  const kmPerDegreeLng = kmPerDegreeLat * Math.cos((center.latitude * Math.PI) / 180);
+  let worst = 0;
+
+  for (let y = -radiusKm; y <= radiusKm; y += radiusKm / 20) {
+    for (let x = -radiusKm; x <= radiusKm; x += radiusKm / 20) {
+      if (Math.sqrt(x * x + y * y) > radiusKm) continue;
+
+      const latitude = center.latitude + y / kmPerDegreeLat;
+      const longitude = center.longitude + x / kmPerDegreeLng;
+      const nearest = Math.min(...centers.map(tile => distanceKm(latitude, longitude, tile.latitude, tile.longitude)));
+      worst = Math.max(worst, nearest);
+    }
+  }
+
+  return worst;
+}
+
+describe('hexTileCenters', () => {
+  it('uses one tile when the area fits in it', () => {
+    const center = { latitude: 40.7, longitude: -74 };
+    expect(hexTileCenters(center, 50, 50)).toEqual([center]);
+  });
+
+  it('covers every point of a wider circle', () => {
+    expect(worstCoverageKm({ latitude: 40.7, longitude: -74 }, 160, 50)).toBeLessThanOrEqual(50);
+  });
+
+  it('still covers the circle far from the equator', () => {
+    expect(worstCoverageKm({ latitude: 64.8, longitude: -147.7 }, 120, 50)).toBeLessThanOrEqual(50);
+  });
+
+  it('needs more tiles for a wider area', () => {
+    const center = { latitude: 40.7, longitude: -74 };
+    expect(hexTileCenters(center, 200, 50).length).toBeGreaterThan(hexTileCenters(center, 100, 50).length);
+  });
+
+  it('keeps every tile close enough to overlap the area', () => {
+    const center = { latitude: 40.7, longitude: -74 };
+    hexTileCenters(center, 160, 50).forEach(tile => {
+      expect(distanceKm(center.latitude, center.longitude, tile.latitude, tile.longitude)).toBeLessThan(160 + 50);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { project, zoomForBounds, searchMapView } from '@/utils/map-tiles';
+
+// Roughly Kings County, NY
+const bounds = { minLat: 40.57, maxLat: 40.74, minLng: -74.04, maxLng: -73.83 };
+
+describe('zoomForBounds', () => {
+  it('picks the closest zoom that still fits the whole box', () => {
+    const zoom = zoomForBounds(bounds, 360, 420);
+    const span = (z: number) => {
+      const topLeft = project(bounds.maxLat, bounds.minLng, z);
+      const bottomRight = project(bounds.minLat, bounds.maxLng, z);
+      return { x: bottomRight.x - topLeft.x, y: bottomRight.y - topLeft.y };
+    };
+
+    expect(span(zoom).x).toBeLessThanOrEqual(360);
+    expect(span(zoom).y).toBeLessThanOrEqual(420);
+    expect(span(zoom + 1).x > 360 || span(zoom + 1).y > 420).toBe(true);
+  });
+
+  it('zooms further out for a bigger region', () => {
+    const state = { minLat: 40.5, maxLat: 45, minLng: -79.8, maxLng: -71.8 };
+    expect(zoomForBounds(state, 360, 420)).toBeLessThan(zoomForBounds(bounds, 360, 420));
+  });
+});
+
+describe('searchMapView', () => {
+  const location = { latitude: 42, longitude: -76 };
+  const regionCenter = { latitude: 40.65, longitude: -73.94 };
+
+  it('centres region searches on the region without needing a location', () => {
+    const view = searchMapView(
+      { location: null, isRegion: true, searchCenter: regionCenter, searchBounds: bounds, radiusKm: 8 },
+      360,
+      420
+    );
+    expect(view).toEqual({ center: regionCenter, zoom: zoomForBounds(bounds, 360, 420) });
+  });
+
+  it('centres radius searches on the location', () => {
+    const view = searchMapView(
+      { location, isRegion: false, searchCenter: regionCenter, searchBounds: bounds, radiusKm: 8 },
+      360,
+      420
+    );
+    expect(view?.center).toEqual(location);
+  });
+
+  it('has nothing to show without a centre', () => {
+    expect(searchMapView({ location: null, isRegion: false, searchCenter: null, searchBounds: null, radiusKm: 8 }, 360, 420))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+import { autoExpandedRadius, DEFAULT_SEARCH_RADIUS_MILES } from '@/utils/search-radius';
+import { kmToMiles } from '@/utils/geo';
+
+describe('autoExpandedRadius', () => {
+  it('widens the imperial default from 5 to 10 miles', () => {
+    expect(autoExpandedRadius(DEFAULT_SEARCH_RADIUS_MILES, 'imperial')).toBe(10);
+  });
+
+  it('widens the metric default from 5 to 10 km', () => {
+    expect(autoExpandedRadius(kmToMiles(5), 'metric')).toBeCloseTo(kmToMiles(10), 10);
+  });
+
+  it('widens the install default for metric users too', () => {
+    expect(autoExpandedRadius(DEFAULT_SEARCH_RADIUS_MILES, 'metric')).toBeCloseTo(kmToMiles(10), 10);
+  });
+
+  it('leaves a radius the user picked alone', () => {
+    expect(autoExpandedRadius(10, 'imperial')).toBeNull();
+    expect(autoExpandedRadius(kmToMiles(25), 'metric')).toBeNull();
+  });
+});
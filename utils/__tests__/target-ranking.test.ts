@@ -0,0 +1,78 @@
+import { targetChance, scoreHotspotsForTargets, hotspotsToCheckForTargets } from '@/utils/target-ranking';
+import { hotspot, report as fixtureReport, obsDtDaysAgo } from './fixtures';
+
+const now = new Date('2024-05-10T12:00:00').getTime();
+const DECAY = 0.1;
+
+const report = (speciesCode: string, locId: string, days: number) =>
+  fixtureReport(speciesCode, obsDtDaysAgo(days, now), locId);
+
+describe('targetChance', () => {
+  it('is zero without reports', () => {
+    expect(targetChance([], DECAY, now)).toBe(0);
+  });
+
+  it('fades as a report gets older', () => {
+    const yesterday = targetChance([report('amerob', 'L1', 1)], DECAY, now);
+    const lastMonth = targetChance([report('amerob', 'L1', 21)], DECAY, now);
+
+    expect(yesterday).toBeCloseTo(0.9, 1);
+    expect(lastMonth).toBeCloseTo(0.12, 1);
+    expect(lastMonth).toBeLessThan(yesterday);
+  });
+
+  it('grows with more reports but stays below one', () => {
+    const one = targetChance([report('amerob', 'L1', 7)], DECAY, now);
+    const three = targetChance([7, 8, 9].map(days => report('amerob', 'L1', days)), DECAY, now);
+
+    expect(three).toBeGreaterThan(one);
+    expect(three).toBeLessThan(1);
+  });
+
+  it('never reaches certainty, even for a report today', () => {
+    expect(targetChance([report('amerob', 'L1', 0)], DECAY, now)).toBe(0.99);
+    expect(targetChance([report('amerob', 'L1', -1)], DECAY, now)).toBe(0.99);
+  });
+});
+
+describe('scoreHotspotsForTargets', () => {
+  const sightings = {
+    amerob: [report('amerob', 'L1', 1), report('amerob', 'L2', 20)],
+    blujay: [report('blujay', 'L1', 2)],
+  };
+
+  it('scores each hotspot only from reports made there', () => {
+    const scores = scoreHotspotsForTargets([hotspot('L1'), hotspot('L2'), hotspot('L3')], sightings, DECAY, now);
+
+    expect(scores.L1.chances.amerob).toBeGreaterThan(scores.L2.chances.amerob);
+    expect(scores.L2.chances.blujay).toBe(0);
+    expect(scores.L3.expectedTargets).toBe(0);
+  });
+
+  it('adds up the chance of each target', () => {
+    const scores = scoreHotspotsForTargets([hotspot('L1')], sightings, DECAY, now);
+    expect(scores.L1.expectedTargets).toBeCloseTo(scores.L1.chances.amerob + scores.L1.chances.blujay, 10);
+  });
+});
+
+describe('hotspotsToCheckForTargets', () => {
+  const hotspots = [0.3, 0.1, 0.4, 0.2].map((lng, index) => ({
+    ...hotspot(`L${index}`, 0, lng),
+    numSpeciesAllTime: index * 100,
+  }));
+
+  it('keeps the hotspots closest to the origin', () => {
+    const checked = hotspotsToCheckForTargets(hotspots, { latitude: 0, longitude: 0 }, 2);
+    expect(checked.map(item => item.locId)).toEqual(['L1', 'L3']);
+  });
+
+  it('keeps the richest hotspots without an origin', () => {
+    const checked = hotspotsToCheckForTargets(hotspots, null, 2);
+    expect(checked.map(item => item.locId)).toEqual(['L3', 'L2']);
+  });
+
+  it('checks only a handful by default', () => {
+    const many = Array.from({ length: 50 }, (_, index) => hotspot(`L${index}`, 0, index / 100));
+    expect(hotspotsToCheckForTargets(many, { latitude: 0, longitude: 0 }).length).toBeLessThanOrEqual(15);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  planRoute,
+  describeRoute,
+  expectedTripSpecies,
+  routeDirections,
+  MAX_DIRECTIONS_WAYPOINTS,
+} from '@/utils/trip-planner';
+import { hotspot, report } from './fixtures';
+
+const start = { latitude: 0, longitude: 0 };
+
+describe('planRoute', () => {
+  it('visits hotspots along a line in order of distance', () => {
+    const route = planRoute(start, [hotspot('C', 0, 0.3), hotspot('A', 0, 0.1), hotspot('B', 0, 0.2)]);
+    expect(route.stops.map(stop => stop.locId)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('untangles a crossing the greedy pass leaves behind', () => {
+    const hotspots = [hotspot('A', 0, 1), hotspot('B', 1, 1), hotspot('C', 1, 0), hotspot('D', 0, 2), hotspot('E', 1, 2)];
+    const route = planRoute(start, hotspots);
+    const greedyMiles = describeRoute(start, hotspots).totalMiles;
+
+    expect(route.stops).toHaveLength(hotspots.length);
+    expect(route.totalMiles).toBeLessThanOrEqual(greedyMiles);
+  });
+
+  it('returns an empty route without hotspots', () => {
+    expect(planRoute(start, [])).toEqual({ stops: [], legMiles: [], totalMiles: 0 });
+  });
+});
+
+describe('describeRoute', () => {
+  it('sums the legs from the start through each stop', () => {
+    const route = describeRoute(start, [hotspot('A', 0, 0.1), hotspot('B', 0, 0.2)]);
+    expect(route.legMiles).toHaveLength(2);
+    expect(route.legMiles[0]).toBeCloseTo(route.legMiles[1], 5);
+    expect(route.totalMiles).toBeCloseTo(route.legMiles[0] * 2, 5);
+  });
+});
+
+describe('expectedTripSpecies', () => {
+  const now = new Date('2024-05-10T12:00:00').getTime();
+
+  it('counts a species reported at several stops once', () => {
+    const once = expectedTripSpecies([report('amerob', '2024-05-10 08:00')], 0.1, now);
+    const twice = expectedTripSpecies([report('amerob', '2024-05-10 08:00'), report('amerob', '2024-05-09 08:00')], 0.1, now);
+
+    expect(twice).toBeGreaterThan(once);
+    expect(twice).toBeLessThanOrEqual(1);
+  });
+
+  it('adds up different species', () => {
+    const total = expectedTripSpecies([report('amerob', '2024-05-10 08:00'), report('blujay', '2024-05-10 08:00')], 0.1, now);
+    expect(total).toBeGreaterThan(1);
+    expect(total).toBeLessThanOrEqual(2);
+  });
+});
+
+describe('routeDirections', () => {
+  const stops = Array.from({ length: 23 }, (_, index) => hotspot(`L${index}`, index, index));
+
+  it('opens a short trip as a single route', () => {
+    const legs = routeDirections(start, stops.slice(0, 3));
+    expect(legs).toHaveLength(1);
+    expect(legs[0].url).toContain('origin=0,0');
+    expect(legs[0].url).toContain('destination=2,2');
+    expect(decodeURIComponent(legs[0].url)).toContain('waypoints=0,0|1,1');
+  });
+
+  it('leaves out waypoints for a single stop', () => {
+    expect(routeDirections(start, stops.slice(0, 1))[0].url).not.toContain('waypoints');
+  });
+
+  it('splits long trips so no part has too many waypoints', () => {
+    const legs = routeDirections(start, stops);
+
+    expect(legs.map(leg => [leg.firstStop, leg.lastStop])).toEqual([[0, 9], [10, 19], [20, 22]]);
+    legs.forEach(leg => {
+      const waypoints = new URL(leg.url).searchParams.get('waypoints') || '';
+      expect(waypoints.split('|').length).toBeLessThanOrEqual(MAX_DIRECTIONS_WAYPOINTS);
+    });
+  });
+
+  it('starts each part where the previous one ended', () => {
+    const legs = routeDirections(start, stops);
+    expect(legs[1].url).toContain('origin=9,9');
+    expect(legs[2].url).toContain('origin=19,19');
+  });
+});
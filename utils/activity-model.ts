@@ -0,0 +1,117 @@
+import { ActivityProfiles, BirdObservation } from '@/types/birds';
+import { EBirdChecklistDetail } from '@/types/ebird';
+
+// Fewer timed reports than this and the profile is too thin to trust
+const MIN_TIMED_REPORTS = 3;
+
+// Hours with less effort than this (neighbours included) say nothing about activity
+const MIN_HOUR_CHECKLISTS = 3;
+
+// Keep the adjustment gentle - time of day nudges the score, it doesn't replace it
+const MIN_FACTOR = 0.6;
+const MAX_FACTOR = 1.4;
+
+// eBird obsDt is "YYYY-MM-DD" or "YYYY-MM-DD HH:mm" when a start time was entered
+export function hourOfObservation(obsDt: string): number | null {
+  const match = obsDt.match(/\s(\d{1,2}):\d{2}/);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  return hour >= 0 && hour < 24 ? hour : null;
+}
+
+// Timed checklists per hour of the day, and how many of them reported each species.
+// Checklists without a start time are skipped.
+export function buildActivityProfiles(checklists: EBirdChecklistDetail[]): ActivityProfiles {
+  const checklistsByHour = new Array(24).fill(0);
+  const reportsByHour: Record<string, number[]> = {};
+
+  checklists.forEach(checklist => {
+    const hour = hourOfObservation(checklist.obsDt);
+    if (hour === null) return;
+
+    checklistsByHour[hour] += 1;
+    new Set(checklist.obs.map(line => line.speciesCode)).forEach(speciesCode => {
+      if (!reportsByHour[speciesCode]) {
+        reportsByHour[speciesCode] = new Array(24).fill(0);
+      }
+      reportsByHour[speciesCode][hour] += 1;
+    });
+  });
+
+  return { checklistsByHour, reportsByHour };
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Neighbouring hours are blended in so a single early checklist doesn't dominate
+const smoothedAt = (buckets: number[], hour: number) => {
+  const at = (h: number) => buckets[(h + 24) % 24];
+  return at(hour - 1) + 2 * at(hour) + at(hour + 1);
+};
+
+// How much more (or less) often a species is reported at this hour than on average,
+// relative to how many checklists were submitted then - birders' habits cancel out
+export function activityFactor(profiles: ActivityProfiles | null, speciesCode: string, hour: number): number {
+  const reports = profiles?.reportsByHour[speciesCode];
+  if (!profiles || !reports) return 1;
+
+  const totalReports = sum(reports);
+  if (totalReports < MIN_TIMED_REPORTS) return 1;
+
+  const effort = smoothedAt(profiles.checklistsByHour, hour);
+  if (effort < MIN_HOUR_CHECKLISTS) return 1;
+
+  const rate = smoothedAt(reports, hour) / effort;
+  const average = totalReports / sum(profiles.checklistsByHour);
+
+  // Shrink toward the average so a quiet hour doesn't zero a species out
+  const factor = (rate + average) / (2 * average);
+  return Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, factor));
+}
+
+export interface SpeciesActivity {
+  rates: number[]; // share of each hour's checklists reporting the species, 24 buckets
+  reports: number;
+  checklists: number;
+}
+
+// Hour-of-day detection rates for one species, or null when there's too little to show
+export function speciesActivity(profiles: ActivityProfiles | null, speciesCode: string): SpeciesActivity | null {
+  const reports = profiles?.reportsByHour[speciesCode];
+  if (!profiles || !reports || sum(reports) < MIN_TIMED_REPORTS) return null;
+
+  return {
+    rates: reports.map((count, hour) =>
+      profiles.checklistsByHour[hour] > 0 ? count / profiles.checklistsByHour[hour] : 0
+    ),
+    reports: sum(reports),
+    checklists: sum(profiles.checklistsByHour),
+  };
+}
+
+// Adjust each likelihood for how active the species is at the given hour
+export function applyActivityModel(
+  birds: BirdObservation[],
+  profiles: ActivityProfiles | null,
+  hour: number
+): BirdObservation[] {
+  return birds
+    .map(bird => {
+      const factor = activityFactor(profiles, bird.speciesCode, hour);
+      const likelihood = bird.likelihood ?? 0;
+
+      return {
+        ...bird,
+        likelihood: Math.min(99, Math.round(likelihood * factor)),
+        activityFactor: factor,
+      };
+    })
+    .sort((a, b) => b.likelihood - a.likelihood);
+}
+
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const display = hour % 12 === 0 ? 12 : hour % 12;
+  return `${display} ${suffix}`;
+}
@@ -1,107 +1,513 @@
-import { LocationState, Hotspot } from '@/types/birds';
-
-const API_KEY = '9tjj0hba40ec';
-
-// Convert miles to kilometers for API
-// Ensure we never exceed the API's 50km limit
-const milesToKm = (miles: number) => {
-  const km = miles * 1.60934;
-  return Math.min(km, 50); // Cap at 50km (API limit)
-};
-
-export async function fetchNearbyBirds(location: LocationState, radiusMiles: number, limit: number | null = null) {
-  const { latitude, longitude } = location;
-  const back = 30; // 30 days
-  const radiusKm = milesToKm(radiusMiles);
-  
-  // Build the base URL
-  let url = `https://api.ebird.org/v2/data/obs/geo/recent?lat=${latitude}&lng=${longitude}&back=${back}&dist=${radiusKm}&hotspot=false`;
-  
-  // Only add maxResults if a limit is specified
-  if (limit !== null) {
-    url += `&maxResults=${limit}`;
+import Constants from 'expo-constants';
+import { LocationState, BirdObservation, Hotspot, SeasonalSpeciesStats, ActivityProfiles } from '@/types/birds';
+import { EBirdTaxon, EBirdChecklistDetail, RegionType } from '@/types/ebird';
+import { speciesNamesFor, hotspotObservations } from '@/utils/hotspot-species';
+import { createEBirdClient, EBirdAuthError } from '@/utils/ebird-client';
+import { cachedFetch, buildCacheKey, CachedResult } from '@/utils/response-cache';
+import { seasonalSampleDates, regionForHotspots, buildSeasonalStats } from '@/utils/seasonal-model';
+import { buildActivityProfiles } from '@/utils/activity-model';
+import { milesToKm, distanceKm, hexTileCenters } from '@/utils/geo';
+import { EBIRD_MAX_RADIUS_KM, EBIRD_MAX_RADIUS_MILES, queryRadiusKm, shouldTileSearch } from '@/utils/search-radius';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+
+// Key shipped with the build: EXPO_PUBLIC_EBIRD_API_KEY wins over app.json `extra.ebirdApiKey`
+const CONFIG_API_KEY: string | null =
+  process.env.EXPO_PUBLIC_EBIRD_API_KEY || Constants.expoConfig?.extra?.ebirdApiKey || null;
+
+// The key in use right now - a user override from settings takes precedence
+export function getApiKey(): string | null {
+  return useSettingsStore.getState().apiKeyOverride || CONFIG_API_KEY;
+}
+
+// Shared client used by the app's screens
+export const ebirdClient = createEBirdClient({ apiKey: getApiKey });
+
+// A key check in progress, shared by every call made while it runs (e.g. the screens'
+// first requests on startup). Dropped once it settles or when the key changes.
+let pendingVerification: { apiKey: string; promise: Promise<void> } | null = null;
+
+async function verifyApiKeyOnce(apiKey: string) {
+  const isValid = await ebirdClient.verifyApiKey(apiKey);
+  if (!isValid) {
+    throw new EBirdAuthError('config', 401);
   }
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'X-eBirdApiToken': API_KEY,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch birds data: ${response.status}`);
-    }
+  useSettingsStore.getState().setVerifiedApiKey(apiKey);
+}
+
+// Check the current key the first time it is used, so a bad key surfaces as
+// an auth error instead of whatever the first real request happens to return
+async function ensureValidApiKey() {
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new EBirdAuthError('config', null);
+  }
+
+  if (useSettingsStore.getState().verifiedApiKey === apiKey) return;
+
+  if (pendingVerification?.apiKey !== apiKey) {
+    const verification = {
+      apiKey,
+      promise: verifyApiKeyOnce(apiKey).finally(() => {
+        if (pendingVerification === verification) {
+          pendingVerification = null;
+        }
+      }),
+    };
+    pendingVerification = verification;
+  }
+
+  await pendingVerification.promise;
+}
 
-    return response.json();
+async function callEBird<T>(label: string, run: () => Promise<T>): Promise<T> {
+  try {
+    await ensureValidApiKey();
+    return await run();
   } catch (error) {
-    console.error('API Error in fetchNearbyBirds:', error);
+    // A key that stops working (revoked, edited) should be re-validated next time
+    if (error instanceof EBirdAuthError) {
+      useSettingsStore.getState().setVerifiedApiKey(null);
+    }
+    console.error(`API Error in ${label}:`, error);
     throw error;
   }
 }
 
-export async function fetchHotspots(location: LocationState, radiusMiles: number) {
-  const { latitude, longitude } = location;
-  const radiusKm = milesToKm(radiusMiles);
-  const back = 30; // 30 days - filter hotspots with observations in the last 30 days
-  const url = `https://api.ebird.org/v2/ref/hotspot/geo?lat=${latitude}&lng=${longitude}&dist=${radiusKm}&back=${back}&fmt=json`;
+interface CacheOptions<T> {
+  // Receives fresh data when a stale cached response was refreshed in the background
+  onRevalidated?: (result: CachedResult<T>) => void;
+  onRevalidateError?: (error: unknown) => void;
+  force?: boolean; // bypass the cache, e.g. on pull-to-refresh
+}
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'X-eBirdApiToken': API_KEY,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch hotspots data: ${response.status}`);
-    }
+// Tiles fetched at once, so a wide search doesn't trip eBird's rate limit
+const TILE_BATCH_SIZE = 4;
 
-    return response.json();
-  } catch (error) {
-    console.error('API Error in fetchHotspots:', error);
-    throw error;
+// Whether to split this radius into several queries; radii over eBird's limit are capped otherwise
+const isTiled = (radiusMiles: number) =>
+  shouldTileSearch(radiusMiles, useSettingsStore.getState().tileLargeSearches);
+
+// Covers a radius wider than eBird allows with overlapping maximum-size queries. Results outside
+// the requested circle are dropped, and where tiles overlap the first item for each key is kept.
+async function fetchTiled<T extends { lat: number; lng: number }>(
+  location: LocationState,
+  radiusMiles: number,
+  fetchTile: (center: LocationState) => Promise<CachedResult<T[]>>,
+  keyOf: (item: T) => string,
+  order?: (a: T, b: T) => number
+): Promise<CachedResult<T[]>> {
+  const requestedKm = milesToKm(radiusMiles);
+  const centers = hexTileCenters(location, requestedKm, EBIRD_MAX_RADIUS_KM);
+  const results: CachedResult<T[]>[] = [];
+
+  for (let i = 0; i < centers.length; i += TILE_BATCH_SIZE) {
+    results.push(...(await Promise.all(centers.slice(i, i + TILE_BATCH_SIZE).map(fetchTile))));
   }
+
+  const items = results
+    .flatMap(result => result.data)
+    .filter(item => distanceKm(location.latitude, location.longitude, item.lat, item.lng) <= requestedKm);
+  if (order) items.sort(order);
+
+  const seen = new Set<string>();
+  const data = items.filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    data,
+    fetchedAt: Math.min(...results.map(result => result.fetchedAt)), // as old as the oldest tile
+    isStale: results.some(result => result.isStale),
+  };
 }
 
-export async function fetchHotspotDetails(hotspotId: string) {
-  const url = `https://api.ebird.org/v2/product/lists/${hotspotId}?maxResults=10`;
+const newestFirst = (a: BirdObservation, b: BirdObservation) => b.obsDt.localeCompare(a.obsDt);
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'X-eBirdApiToken': API_KEY,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch hotspot details: ${response.status}`);
-    }
+export async function fetchNearbyBirds(
+  location: LocationState,
+  radiusMiles: number,
+  limit: number | null = null,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<BirdObservation[]> = {}
+): Promise<CachedResult<BirdObservation[]>> {
+  if (isTiled(radiusMiles)) {
+    // Background refreshes of single tiles would replace the list with a partial one,
+    // so tiled searches only report their errors
+    const result = await fetchTiled(
+      location,
+      radiusMiles,
+      // Each tile unlimited - a capped tile would drop species the merged list should keep
+      center => fetchNearbyBirds(center, EBIRD_MAX_RADIUS_MILES, null, { onRevalidateError, force }),
+      bird => bird.speciesCode, // eBird returns the latest report of each species
+      newestFirst
+    );
+    return limit ? { ...result, data: result.data.slice(0, limit) } : result;
+  }
 
-    return response.json();
-  } catch (error) {
-    console.error('API Error in fetchHotspotDetails:', error);
-    throw error;
+  const query = {
+    lat: location.latitude,
+    lng: location.longitude,
+    distKm: queryRadiusKm(radiusMiles),
+    back: 30, // 30 days
+    maxResults: limit, // null means no limit
+  };
+
+  return cachedFetch({
+    endpoint: 'recentObservations',
+    key: buildCacheKey('recentObservations', query),
+    fetcher: () => callEBird('fetchNearbyBirds', () => ebirdClient.getRecentObservations(query)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
+}
+
+export async function fetchNotableBirds(
+  location: LocationState,
+  radiusMiles: number,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<BirdObservation[]> = {}
+): Promise<CachedResult<BirdObservation[]>> {
+  if (isTiled(radiusMiles)) {
+    return fetchTiled(
+      location,
+      radiusMiles,
+      center => fetchNotableBirds(center, EBIRD_MAX_RADIUS_MILES, { onRevalidateError, force }),
+      bird => `${bird.speciesCode}|${bird.locId}|${bird.obsDt}`,
+      newestFirst
+    );
   }
+
+  const query = {
+    lat: location.latitude,
+    lng: location.longitude,
+    distKm: queryRadiusKm(radiusMiles),
+    back: 30, // 30 days
+  };
+
+  return cachedFetch({
+    endpoint: 'notableObservations',
+    key: buildCacheKey('notableObservations', query),
+    fetcher: () => callEBird('fetchNotableBirds', () => ebirdClient.getNotableObservations(query)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
 }
 
-export async function fetchRegionalSpecies(regionCode: string) {
-  const url = `https://api.ebird.org/v2/product/spplist/${regionCode}`;
+// Recent sightings anywhere in an eBird region (country, state or county)
+export async function fetchRegionalBirds(
+  regionCode: string,
+  limit: number | null = null,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<BirdObservation[]> = {}
+): Promise<CachedResult<BirdObservation[]>> {
+  const query = {
+    regionCode,
+    back: 30, // 30 days
+    maxResults: limit, // null means no limit
+  };
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'X-eBirdApiToken': API_KEY,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch regional species: ${response.status}`);
-    }
+  return cachedFetch({
+    endpoint: 'regionalObservations',
+    key: buildCacheKey('regionalObservations', query),
+    fetcher: () => callEBird('fetchRegionalBirds', () => ebirdClient.getRegionalObservations(query)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
+}
 
-    return response.json();
-  } catch (error) {
-    console.error('API Error in fetchRegionalSpecies:', error);
-    throw error;
+// Recent reports at each of several hotspots, combined into one list
+export async function fetchHotspotsRecentBirds(locIds: string[]): Promise<BirdObservation[]> {
+  const results = await Promise.all(locIds.map(locId => fetchRegionalBirds(locId)));
+  return results.flatMap(result => result.data);
+}
+
+export async function fetchRegionalNotableBirds(
+  regionCode: string,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<BirdObservation[]> = {}
+): Promise<CachedResult<BirdObservation[]>> {
+  const query = { regionCode, back: 30 };
+
+  return cachedFetch({
+    endpoint: 'regionalNotableObservations',
+    key: buildCacheKey('regionalNotableObservations', query),
+    fetcher: () => callEBird('fetchRegionalNotableBirds', () => ebirdClient.getRegionalNotableObservations(query)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
+}
+
+// Nearest recent sightings of one species, for the "where can I find it" finder
+export async function fetchSpeciesSightings(speciesCode: string, location: LocationState) {
+  const query = {
+    lat: location.latitude,
+    lng: location.longitude,
+    distKm: EBIRD_MAX_RADIUS_KM, // search as wide as eBird allows
+    back: 30,
+    maxResults: 25,
+  };
+
+  return cachedFetch({
+    endpoint: 'speciesObservations',
+    key: buildCacheKey('speciesObservations', { speciesCode, ...query }),
+    fetcher: () =>
+      callEBird('fetchSpeciesSightings', () => ebirdClient.getNearestSpeciesObservations(speciesCode, query)),
+  });
+}
+
+// Hotspot requests sent at once when looking for target species
+const TARGET_BATCH_SIZE = 4;
+
+// Recent sightings of each target species at the given hotspots, keyed by speciesCode.
+// Read from each hotspot's own recent reports - the nearest-sightings feed stops at the
+// closest few locations, so most hotspots in a wide search would never score.
+export async function fetchTargetSightings(
+  speciesCodes: string[],
+  hotspots: Hotspot[]
+): Promise<Record<string, BirdObservation[]>> {
+  const observations: BirdObservation[] = [];
+  for (let i = 0; i < hotspots.length; i += TARGET_BATCH_SIZE) {
+    observations.push(
+      ...(await fetchHotspotsRecentBirds(hotspots.slice(i, i + TARGET_BATCH_SIZE).map(hotspot => hotspot.locId)))
+    );
+  }
+
+  return Object.fromEntries(
+    speciesCodes.map(speciesCode => [
+      speciesCode,
+      observations.filter(observation => observation.speciesCode === speciesCode),
+    ])
+  );
+}
+
+export async function fetchHotspots(
+  location: LocationState,
+  radiusMiles: number,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<Hotspot[]> = {}
+): Promise<CachedResult<Hotspot[]>> {
+  if (isTiled(radiusMiles)) {
+    return fetchTiled(
+      location,
+      radiusMiles,
+      center => fetchHotspots(center, EBIRD_MAX_RADIUS_MILES, { onRevalidateError, force }),
+      hotspot => hotspot.locId
+    );
+  }
+
+  const query = {
+    lat: location.latitude,
+    lng: location.longitude,
+    distKm: queryRadiusKm(radiusMiles),
+    back: 30, // 30 days - filter hotspots with observations in the last 30 days
+  };
+
+  return cachedFetch({
+    endpoint: 'nearbyHotspots',
+    key: buildCacheKey('nearbyHotspots', query),
+    fetcher: () => callEBird('fetchHotspots', () => ebirdClient.getNearbyHotspots(query)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
+}
+
+export async function fetchRegionalHotspots(
+  regionCode: string,
+  { onRevalidated, onRevalidateError, force }: CacheOptions<Hotspot[]> = {}
+): Promise<CachedResult<Hotspot[]>> {
+  return cachedFetch({
+    endpoint: 'regionalHotspots',
+    key: buildCacheKey('regionalHotspots', { regionCode, back: 30 }),
+    fetcher: () => callEBird('fetchRegionalHotspots', () => ebirdClient.getRegionalHotspots(regionCode, 30)),
+    onRevalidated,
+    onRevalidateError,
+    force,
+  });
+}
+
+// Past-year reports for the same weeks, used by the seasonal likelihood model
+export async function fetchSeasonalStats(location: LocationState): Promise<Record<string, SeasonalSpeciesStats>> {
+  const hotspotsResult = await fetchHotspots(location, 15);
+  const regionCode = regionForHotspots(hotspotsResult.data);
+  if (!regionCode) {
+    return {}; // nowhere to look up history for
   }
-}
\ No newline at end of file
+
+  const dailyObservations = await Promise.all(
+    seasonalSampleDates().map(date => {
+      const query = { regionCode, ...date };
+      return cachedFetch({
+        endpoint: 'historicObservations',
+        key: buildCacheKey('historicObservations', query),
+        fetcher: () => callEBird('fetchSeasonalStats', () => ebirdClient.getHistoricObservations(query)),
+      }).then(result => result.data);
+    })
+  );
+
+  return buildSeasonalStats(dailyObservations);
+}
+
+// Timed checklists sampled for the time-of-day model; each one is a separate request
+const ACTIVITY_CHECKLIST_SAMPLE = 40;
+const ACTIVITY_BATCH_SIZE = 5;
+
+// Hour-of-day profiles from recent checklists in the surrounding county. The nearby
+// sightings feed only has the latest report of each species, too little to see a pattern.
+export async function fetchActivityProfiles(location: LocationState): Promise<ActivityProfiles> {
+  const hotspotsResult = await fetchHotspots(location, 15);
+  const regionCode = regionForHotspots(hotspotsResult.data);
+  if (!regionCode) {
+    return buildActivityProfiles([]);
+  }
+
+  const summaries = await cachedFetch({
+    endpoint: 'recentChecklists',
+    key: buildCacheKey('recentChecklists', { regionCode, maxResults: 200 }),
+    fetcher: () => callEBird('fetchActivityProfiles', () => ebirdClient.getRecentChecklists(regionCode, 200)),
+  });
+  const timed = summaries.data.filter(summary => summary.obsTime).slice(0, ACTIVITY_CHECKLIST_SAMPLE);
+
+  const checklists: EBirdChecklistDetail[] = [];
+  for (let i = 0; i < timed.length; i += ACTIVITY_BATCH_SIZE) {
+    const batch = await Promise.all(
+      timed.slice(i, i + ACTIVITY_BATCH_SIZE).map(summary =>
+        cachedFetch({
+          endpoint: 'checklistDetail',
+          key: buildCacheKey('checklistDetail', { subId: summary.subId }),
+          fetcher: () => callEBird('fetchActivityProfiles', () => ebirdClient.getChecklist(summary.subId)),
+        }).then(result => result.data)
+      )
+    );
+    checklists.push(...batch);
+  }
+
+  return buildActivityProfiles(checklists);
+}
+
+// A single hotspot, for when it isn't in the current search results (e.g. a shared link)
+export async function fetchHotspotInfo(locId: string): Promise<Hotspot> {
+  const result = await cachedFetch({
+    endpoint: 'hotspotInfo',
+    key: buildCacheKey('hotspotInfo', { locId }),
+    fetcher: () => callEBird('fetchHotspotInfo', () => ebirdClient.getHotspotInfo(locId)),
+  });
+
+  const info = result.data;
+  return {
+    locId: info.locId,
+    locName: info.name,
+    lat: info.latitude,
+    lng: info.longitude,
+    countryCode: info.countryCode,
+    subnational1Code: info.subnational1Code,
+    subnational2Code: info.subnational2Code,
+  };
+}
+
+export async function fetchHotspotDetails(hotspotId: string) {
+  const result = await cachedFetch({
+    endpoint: 'recentChecklists',
+    key: buildCacheKey('recentChecklists', { locId: hotspotId, maxResults: 10 }),
+    fetcher: () => callEBird('fetchHotspotDetails', () => ebirdClient.getRecentChecklists(hotspotId, 10)),
+  });
+  return result.data;
+}
+
+// Checklists sampled when working out what's likely at a hotspot right now
+const HOTSPOT_CHECKLIST_SAMPLE = 10;
+
+export interface HotspotSpecies {
+  observations: BirdObservation[]; // ready for calculateBirdLikelihood
+  allTimeSpecies: EBirdTaxon[];
+}
+
+// Recent reports and the all-time species list for one hotspot
+export async function fetchHotspotSpecies(hotspot: Hotspot): Promise<HotspotSpecies> {
+  const recentQuery = { regionCode: hotspot.locId, back: 30 };
+
+  const [recentResult, checklistSummaries, allTimeSpecies] = await Promise.all([
+    cachedFetch({
+      endpoint: 'hotspotObservations',
+      key: buildCacheKey('hotspotObservations', recentQuery),
+      fetcher: () => callEBird('fetchHotspotSpecies', () => ebirdClient.getRegionalObservations(recentQuery)),
+    }),
+    fetchHotspotDetails(hotspot.locId),
+    fetchRegionalSpeciesTaxa(hotspot.locId),
+  ]);
+
+  const checklists = await Promise.all(
+    checklistSummaries.slice(0, HOTSPOT_CHECKLIST_SAMPLE).map(summary =>
+      cachedFetch({
+        endpoint: 'checklistDetail',
+        key: buildCacheKey('checklistDetail', { subId: summary.subId }),
+        fetcher: () => callEBird('fetchHotspotSpecies', () => ebirdClient.getChecklist(summary.subId)),
+      }).then(result => result.data)
+    )
+  );
+
+  const names = speciesNamesFor(recentResult.data, allTimeSpecies);
+  return {
+    observations: hotspotObservations(hotspot, checklists, recentResult.data, names),
+    allTimeSpecies,
+  };
+}
+
+// Full eBird taxonomy - several MB, so it is only fetched for one-off jobs like
+// imports and deliberately not kept in the response cache
+export async function fetchTaxonomy() {
+  return callEBird('fetchTaxonomy', () => ebirdClient.getTaxonomy());
+}
+
+export async function fetchRegionalSpecies(regionCode: string) {
+  const result = await cachedFetch({
+    endpoint: 'speciesList',
+    key: buildCacheKey('speciesList', { regionCode }),
+    fetcher: () => callEBird('fetchRegionalSpecies', () => ebirdClient.getSpeciesList(regionCode)),
+  });
+  return result.data;
+}
+
+// Species codes per taxonomy request - keeps the query string a sensible length
+const TAXA_BATCH_SIZE = 100;
+
+// The region's species list with names, in taxonomic order
+export async function fetchRegionalSpeciesTaxa(regionCode: string): Promise<EBirdTaxon[]> {
+  const speciesCodes = await fetchRegionalSpecies(regionCode);
+
+  const result = await cachedFetch({
+    endpoint: 'speciesTaxa',
+    key: buildCacheKey('speciesTaxa', { regionCode, count: speciesCodes.length }),
+    fetcher: () => callEBird('fetchRegionalSpeciesTaxa', async () => {
+      const batches: string[][] = [];
+      for (let i = 0; i < speciesCodes.length; i += TAXA_BATCH_SIZE) {
+        batches.push(speciesCodes.slice(i, i + TAXA_BATCH_SIZE));
+      }
+      const taxa = await Promise.all(batches.map(batch => ebirdClient.getTaxonomy(batch)));
+      return taxa.flat().sort((a, b) => a.taxonOrder - b.taxonOrder);
+    }),
+  });
+  return result.data;
+}
+
+// Child regions, e.g. the counties of US-NY
+export async function fetchSubregions(regionType: RegionType, parentRegionCode: string) {
+  const result = await cachedFetch({
+    endpoint: 'subregions',
+    key: buildCacheKey('subregions', { regionType, parentRegionCode }),
+    fetcher: () => callEBird('fetchSubregions', () => ebirdClient.getSubregions(regionType, parentRegionCode)),
+  });
+  return result.data;
+}
+
+export async function fetchRegionInfo(regionCode: string) {
+  const result = await cachedFetch({
+    endpoint: 'regionInfo',
+    key: buildCacheKey('regionInfo', { regionCode }),
+    fetcher: () => callEBird('fetchRegionInfo', () => ebirdClient.getRegionInfo(regionCode)),
+  });
+  return result.data;
+}
@@ -1,9 +1,10 @@
 import { Platform } from 'react-native';
+import { BirdAudioRecording } from '@/types/birds';
 
-// In-memory cache for bird audio URLs
-const birdAudioCache = new Map<string, string[]>();
+// In-memory cache for bird audio recordings
+const birdAudioCache = new Map<string, BirdAudioRecording[]>();
 
-export async function fetchBirdAudio(scientificName: string): Promise<string[]> {
+export async function fetchBirdAudio(scientificName: string): Promise<BirdAudioRecording[]> {
   // Check cache first
   if (birdAudioCache.has(scientificName)) {
     return birdAudioCache.get(scientificName) || [];
@@ -28,7 +29,7 @@ export async function fetchBirdAudio(scientificName: string): Promise<string[]>
     }
     
     // Extract audio URLs from the response
-    const audioUrls = data.recordings
+    const audioUrls: BirdAudioRecording[] = data.recordings
       .filter((recording: any) => 
         // Filter for high-quality recordings and ensure URL exists
         recording && 
@@ -1,15 +1,16 @@
 import { Platform } from 'react-native';
+import { BirdInfo } from '@/types/birds';
 
 // In-memory cache for bird information
-const birdInfoCache = new Map<string, any>();
+const birdInfoCache = new Map<string, BirdInfo>();
 
-export async function fetchBirdInfo(scientificName: string, commonName: string) {
+export async function fetchBirdInfo(scientificName: string, commonName: string): Promise<BirdInfo | null> {
   // Generate a cache key
   const cacheKey = `${scientificName}-${commonName}`;
   
   // Check cache first
   if (birdInfoCache.has(cacheKey)) {
-    return birdInfoCache.get(cacheKey);
+    return birdInfoCache.get(cacheKey) || null;
   }
   
   try {
@@ -20,7 +21,7 @@ export async function fetchBirdInfo(scientificName: string, commonName: string)
     const audioUrl = `https://xeno-canto.org/explore?query=${encodeURIComponent(scientificName)}`;
     
     // Combine with any additional sources in the future
-    const birdInfo = {
+    const birdInfo: BirdInfo = {
       ...wikipediaInfo,
       audioUrl,
       // Add other sources here
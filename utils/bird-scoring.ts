@@ -1,15 +1,107 @@
-import { BirdObservation } from '@/types/birds';
+import { BirdObservation, LikelihoodBreakdown, LocationState } from '@/types/birds';
+import { distanceKm } from '@/utils/geo';
 
-interface ScoredBird extends BirdObservation {
+export interface ScoredBird extends BirdObservation {
   likelihood: number;
+  likelihoodBreakdown: LikelihoodBreakdown;
 }
 
-export function calculateBirdLikelihood(birds: BirdObservation[]): ScoredBird[] {
+// Points each component can contribute. The defaults add up to 110 so strong
+// species comfortably reach the 99% cap.
+export interface ScoringWeights {
+  frequency: number;
+  recency: number;
+  volume: number;
+  consistency: number;
+  distance: number;
+}
+
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  recencyDecayPerDay: number; // exponential decay rate for a report's age in days
+  uncountedFlockSize: number; // individuals assumed when a count is reported as 'X'
+  distanceDecayKm: number; // distance at which the nearest sighting's score drops to ~37%
+  seasonalWeight: number; // 0-1 share of the likelihood from past years, when the seasonal model is on
+}
+
+export interface ScoringPreset {
+  id: string;
+  label: string;
+  description: string;
+  config: ScoringConfig;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: { frequency: 40, recency: 25, volume: 15, consistency: 10, distance: 20 },
+  recencyDecayPerDay: 0.1,
+  uncountedFlockSize: 25,
+  distanceDecayKm: 10,
+  seasonalWeight: 0.3,
+};
+
+export const SCORING_PRESETS: ScoringPreset[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'The default mix of frequency, recency, flock size and distance',
+    config: DEFAULT_SCORING_CONFIG,
+  },
+  {
+    id: 'recent-activity',
+    label: 'Recent activity',
+    description: 'Favor birds reported in the last few days',
+    config: {
+      weights: { frequency: 25, recency: 50, volume: 10, consistency: 5, distance: 20 },
+      recencyDecayPerDay: 0.25,
+      uncountedFlockSize: 25,
+      distanceDecayKm: 10,
+      seasonalWeight: 0.2,
+    },
+  },
+  {
+    id: 'reliable-residents',
+    label: 'Reliable residents',
+    description: 'Favor birds reported steadily all month',
+    config: {
+      weights: { frequency: 40, recency: 10, volume: 10, consistency: 35, distance: 15 },
+      recencyDecayPerDay: 0.05,
+      uncountedFlockSize: 25,
+      distanceDecayKm: 15,
+      seasonalWeight: 0.4,
+    },
+  },
+  {
+    id: 'big-flocks',
+    label: 'Big flocks',
+    description: 'Favor species seen in large numbers',
+    config: {
+      weights: { frequency: 25, recency: 15, volume: 45, consistency: 5, distance: 20 },
+      recencyDecayPerDay: 0.1,
+      uncountedFlockSize: 50,
+      distanceDecayKm: 15,
+      seasonalWeight: 0.3,
+    },
+  },
+];
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export function calculateBirdLikelihood(
+  birds: BirdObservation[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  userLocation: LocationState | null = null
+): ScoredBird[] {
   if (!birds || birds.length === 0) {
     return [];
   }
   
   const now = new Date();
+  const { weights, recencyDecayPerDay, uncountedFlockSize, distanceDecayKm } = config;
+  
+  // Count reported as 'X' means present but not counted
+  const countOf = (obs: BirdObservation) =>
+    typeof obs.howMany === 'number' ? obs.howMany : 
+    obs.howMany === 'X' ? uncountedFlockSize : 1;
   
   // Group birds by species
   const speciesMap = new Map<string, BirdObservation[]>();
@@ -25,11 +117,7 @@ export function calculateBirdLikelihood(birds: BirdObservation[]): ScoredBird[]
   speciesMap.forEach((observations) => {
     maxSightings = Math.max(maxSightings, observations.length);
     
-    const totalVolume = observations.reduce((sum, obs) => {
-      const count = typeof obs.howMany === 'number' ? obs.howMany : 
-                    obs.howMany === 'X' ? 25 : 1;
-      return sum + count;
-    }, 0);
+    const totalVolume = observations.reduce((sum, obs) => sum + countOf(obs), 0);
     
     maxVolume = Math.max(maxVolume, totalVolume);
   });
@@ -42,16 +130,16 @@ export function calculateBirdLikelihood(birds: BirdObservation[]): ScoredBird[]
   const scoredBirds = Array.from(speciesMap.entries()).map(([_, observations]) => {
     const firstObs = observations[0]; // Use first observation for species info
     
-    // Calculate frequency score (0-50 points)
+    // Calculate frequency score (0-40 points by default)
     // More frequent sightings = higher score
-    const frequencyScore = (observations.length / maxSightings) * 50;
+    const frequencyScore = (observations.length / maxSightings) * weights.frequency;
     
-    // Calculate recency score (0-30 points)
+    // Calculate recency score (0-25 points by default)
     // More recent sightings = higher score
     const recencyScores = observations.map(obs => {
-      const daysAgo = (now.getTime() - new Date(obs.obsDt).getTime()) / (1000 * 60 * 60 * 24);
+      const daysAgo = (now.getTime() - new Date(obs.obsDt).getTime()) / MS_PER_DAY;
       // Exponential decay - recent sightings count much more
-      return Math.exp(-0.1 * daysAgo); // Score from ~1.0 to ~0.05 based on days ago
+      return Math.exp(-recencyDecayPerDay * daysAgo); // Default decay scores ~1.0 to ~0.05 over 30 days
     });
     
     // Weight recent sightings more heavily
@@ -67,48 +155,81 @@ export function calculateBirdLikelihood(birds: BirdObservation[]): ScoredBird[]
     
     // Prevent division by zero
     const avgRecency = weightSum > 0 ? weightedRecencySum / weightSum : 0;
-    const recencyScore = avgRecency * 30;
+    const recencyScore = avgRecency * weights.recency;
     
-    // Calculate volume score (0-20 points)
+    // Calculate volume score (0-15 points by default)
     // More birds per sighting = higher score
-    const volumes = observations.map(obs => 
-      typeof obs.howMany === 'number' ? obs.howMany : 
-      obs.howMany === 'X' ? 25 : 1
-    );
-    const totalVolume = volumes.reduce((a, b) => a + b, 0);
-    const volumeScore = Math.min(1, totalVolume / (maxVolume * 0.7)) * 20; // Cap at 70% of max for better distribution
+    const totalVolume = observations.reduce((sum, obs) => sum + countOf(obs), 0);
+    const volumeScore = Math.min(1, totalVolume / (maxVolume * 0.7)) * weights.volume; // Cap at 70% of max for better distribution
     
-    // Calculate consistency bonus (0-10 points)
+    // Calculate consistency bonus (0-10 points by default)
     // More consistent sightings over time = higher score
     const dates = observations.map(obs => new Date(obs.obsDt).getTime());
     dates.sort();
     
     let consistencyScore = 0;
-    if (dates.length > 1) {
-      const dateRangeInDays = (dates[dates.length - 1] - dates[0]) / (1000 * 60 * 60 * 24);
-      if (dateRangeInDays > 0) {
-        // Higher score for more evenly distributed sightings
-        const avgSightingsPerDay = observations.length / dateRangeInDays;
-        consistencyScore = Math.min(10, avgSightingsPerDay * 5);
-      }
+    const dateRangeInDays = dates.length > 1 ? (dates[dates.length - 1] - dates[0]) / MS_PER_DAY : 0;
+    if (dateRangeInDays > 0) {
+      // Higher score for more evenly distributed sightings
+      const avgSightingsPerDay = observations.length / dateRangeInDays;
+      consistencyScore = Math.min(1, avgSightingsPerDay / 2) * weights.consistency;
     }
     
-    // Combine scores and round to nearest integer
+    // Calculate distance score (0-20 points by default)
+    // Closer sightings = higher score. Without a location this component scores 0
+    let nearestDistanceKm: number | null = null;
+    if (userLocation) {
+      observations.forEach(obs => {
+        if (typeof obs.lat !== 'number' || typeof obs.lng !== 'number') return;
+        const km = distanceKm(userLocation.latitude, userLocation.longitude, obs.lat, obs.lng);
+        if (nearestDistanceKm === null || km < nearestDistanceKm) {
+          nearestDistanceKm = km;
+        }
+      });
+    }
+    const distanceScore = nearestDistanceKm !== null && distanceDecayKm > 0
+      ? Math.exp(-nearestDistanceKm / distanceDecayKm) * weights.distance
+      : 0;
+    
     // Make sure we don't have any NaN or Infinity values
+    const safeScore = (score: number) => (isFinite(score) ? score : 0);
+    const components = {
+      frequencyScore: safeScore(frequencyScore),
+      recencyScore: safeScore(recencyScore),
+      volumeScore: safeScore(volumeScore),
+      consistencyScore: safeScore(consistencyScore),
+      distanceScore: safeScore(distanceScore),
+    };
+    
+    // Combine scores and round to nearest integer
     const totalScore = 
-      (isNaN(frequencyScore) ? 0 : frequencyScore) + 
-      (isNaN(recencyScore) ? 0 : recencyScore) + 
-      (isNaN(volumeScore) ? 0 : volumeScore) + 
-      (isNaN(consistencyScore) ? 0 : consistencyScore);
+      components.frequencyScore + 
+      components.recencyScore + 
+      components.volumeScore + 
+      components.consistencyScore + 
+      components.distanceScore;
     
-    const likelihood = Math.round(isFinite(totalScore) ? totalScore : 0);
+    const likelihood = Math.round(totalScore);
     
     // Cap at 99% - nothing is 100% certain in birding!
     const cappedLikelihood = Math.min(99, likelihood);
 
+    const lastSeen = dates.length > 0 ? dates[dates.length - 1] : now.getTime();
+
     return {
       ...firstObs,
-      likelihood: cappedLikelihood
+      likelihood: cappedLikelihood,
+      likelihoodBreakdown: {
+        ...components,
+        sightings: observations.length,
+        maxSightings,
+        totalCount: totalVolume,
+        maxTotalCount: maxVolume,
+        daysSinceLastSeen: Math.max(0, (now.getTime() - lastSeen) / MS_PER_DAY),
+        reportSpanDays: dateRangeInDays,
+        nearestDistanceKm,
+        rawTotal: totalScore,
+      },
     };
   });
 
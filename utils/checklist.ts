@@ -0,0 +1,69 @@
+import { Checklist } from '@/types/checklist';
+import { csvField } from '@/utils/csv';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export function checklistDurationMinutes(checklist: Checklist, now: number = Date.now()): number {
+  const end = checklist.endedAt ?? now;
+  return Math.max(0, Math.round((end - checklist.startedAt) / MS_PER_MINUTE));
+}
+
+export function checklistSpeciesCount(checklist: Checklist): number {
+  return Object.values(checklist.entries).filter(entry => entry.count > 0).length;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// One row per species in eBird's "Record Format (Extended)" for checklist import:
+// common name, genus, species, count, species comments, location, lat, lng,
+// date (MM/DD/YYYY), start time (HH:MM), state, country, protocol, observers,
+// duration (min), all observations reported (Y/N), distance (mi), area (acres), comments
+export function checklistToRecordFormat(checklist: Checklist): string {
+  const started = new Date(checklist.startedAt);
+  const date = `${pad(started.getMonth() + 1)}/${pad(started.getDate())}/${started.getFullYear()}`;
+  const startTime = `${pad(started.getHours())}:${pad(started.getMinutes())}`;
+
+  // Region codes look like US-NY-109 - the record format wants "NY" and "US"
+  const [countryCode = '', stateCode = ''] = (checklist.regionCode || '').split('-');
+
+  const isIncidental = checklist.protocol === 'Incidental';
+  const duration = isIncidental ? null : checklistDurationMinutes(checklist);
+  const distance = checklist.protocol === 'Traveling' ? checklist.distanceMiles.toFixed(2) : null;
+
+  return Object.values(checklist.entries)
+    .filter(entry => entry.count > 0)
+    .map(entry => {
+      const [genus = '', ...species] = entry.sciName.split(' ');
+
+      return [
+        entry.comName,
+        genus,
+        species.join(' '),
+        entry.count,
+        entry.comments,
+        checklist.locName,
+        checklist.lat.toFixed(6),
+        checklist.lng.toFixed(6),
+        date,
+        startTime,
+        stateCode,
+        countryCode,
+        checklist.protocol,
+        checklist.numObservers,
+        duration,
+        checklist.allObservationsReported ? 'Y' : 'N',
+        distance,
+        null, // effort area - not tracked
+        checklist.comments,
+      ].map(csvField).join(',');
+    })
+    .join('\n');
+}
+
+// Several checklists in one upload file
+export function checklistsToRecordFormat(checklists: Checklist[]): string {
+  return checklists
+    .map(checklistToRecordFormat)
+    .filter(rows => rows.length > 0)
+    .join('\n');
+}
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StateStorage } from 'zustand/middleware';
+
+// Android's AsyncStorage can't read back a single entry much over 2 MB, so large stores
+// are split across keys. The entry under the store's own name records which chunks are
+// current ("chunks:<generation>:<count>"); a new generation is written in full before the
+// header moves to it, so an interrupted save leaves the previous copy readable.
+const CHUNK_SIZE = 512 * 1024; // characters
+const HEADER_PATTERN = /^chunks:([a-z0-9]+):(\d+)$/;
+
+const chunkKey = (name: string, generation: string, index: number) => `${name}:${generation}:${index}`;
+
+function parseHeader(header: string | null) {
+  const match = header?.match(HEADER_PATTERN);
+  return match ? { generation: match[1], count: Number(match[2]) } : null;
+}
+
+const chunkKeys = (name: string, generation: string, count: number) =>
+  Array.from({ length: count }, (_, index) => chunkKey(name, generation, index));
+
+export const chunkedStorage: StateStorage = {
+  getItem: async (name) => {
+    const header = await AsyncStorage.getItem(name);
+    const current = parseHeader(header);
+    if (!current) return header; // nothing saved, or saved whole before chunking
+
+    const parts = await AsyncStorage.multiGet(chunkKeys(name, current.generation, current.count));
+    if (parts.some(([, part]) => part === null)) return null;
+    return parts.map(([, part]) => part).join('');
+  },
+
+  setItem: async (name, value) => {
+    const previous = parseHeader(await AsyncStorage.getItem(name));
+    const generation = Date.now().toString(36);
+    const count = Math.max(1, Math.ceil(value.length / CHUNK_SIZE));
+
+    await AsyncStorage.multiSet(
+      chunkKeys(name, generation, count).map((key, index) => [
+        key,
+        value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE),
+      ])
+    );
+    await AsyncStorage.setItem(name, `chunks:${generation}:${count}`);
+
+    if (previous && previous.generation !== generation) {
+      await AsyncStorage.multiRemove(chunkKeys(name, previous.generation, previous.count));
+    }
+  },
+
+  removeItem: async (name) => {
+    const current = parseHeader(await AsyncStorage.getItem(name));
+    if (current) {
+      await AsyncStorage.multiRemove(chunkKeys(name, current.generation, current.count));
+    }
+    await AsyncStorage.removeItem(name);
+  },
+};
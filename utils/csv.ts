@@ -0,0 +1,72 @@
+// Quote a field if it would otherwise break the CSV row
+export const csvField = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@]/;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+// csvField for files meant to be opened in a spreadsheet: text that would run as a formula
+// (e.g. a location named "=HYPERLINK(...)") gets a leading ' so it opens as plain text, while
+// negative numbers such as longitudes are left alone. Not for eBird uploads, which must
+// carry names and comments exactly as entered.
+export const spreadsheetCsvField = (value: string | number | null | undefined) => {
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value) && !NUMBER.test(value)) {
+    return csvField(`'${value}`);
+  }
+  return csvField(value);
+};
+
+// Split CSV text into rows of fields, honouring quoted fields that contain
+// commas, doubled quotes and line breaks (eBird comments often do)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Drop a byte order mark left by spreadsheet apps
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim().length > 0));
+}
@@ -0,0 +1,270 @@
+import {
+  RecentObservationsQuery,
+  NearbyHotspotsQuery,
+  NearestSpeciesQuery,
+  HistoricObservationsQuery,
+  RegionalObservationsQuery,
+  RegionType,
+  RecentObservationsResponse,
+  NotableObservationsResponse,
+  NearestSpeciesResponse,
+  HistoricObservationsResponse,
+  NearbyHotspotsResponse,
+  ChecklistFeedResponse,
+  SpeciesListResponse,
+  TaxonomyResponse,
+  RegionalObservationsResponse,
+  RegionListResponse,
+  RegionalHotspotsResponse,
+  EBirdRegionInfo,
+  EBirdHotspotInfo,
+  EBirdChecklistDetail,
+} from '@/types/ebird';
+
+const DEFAULT_BASE_URL = 'https://api.ebird.org/v2';
+
+// Small, key-protected endpoint used to check that a key is accepted
+const VERIFY_KEY_ENDPOINT = 'ref/region/list/country/world';
+
+// Any fetch-compatible function, so tests can swap in fixtures
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface EBirdClientOptions {
+  // A fixed key, or a getter so the key can change at runtime (user override)
+  apiKey: string | (() => string | null);
+  fetch?: FetchLike;
+  baseUrl?: string;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+// Base class for everything the client throws
+export class EBirdApiError extends Error {
+  readonly status: number | null;
+  readonly endpoint: string;
+
+  constructor(message: string, endpoint: string, status: number | null = null) {
+    super(message);
+    this.name = 'EBirdApiError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+// 401/403 - missing or rejected API key (status is null when no key is configured)
+export class EBirdAuthError extends EBirdApiError {
+  constructor(endpoint: string, status: number | null) {
+    super(
+      status === null ? 'No eBird API key configured' : `eBird rejected the API key (${status})`,
+      endpoint,
+      status
+    );
+    this.name = 'EBirdAuthError';
+  }
+}
+
+// 429 - too many requests
+export class EBirdRateLimitError extends EBirdApiError {
+  readonly retryAfterSeconds: number | null;
+
+  constructor(endpoint: string, retryAfterSeconds: number | null) {
+    super('eBird rate limit reached, please try again shortly', endpoint, 429);
+    this.name = 'EBirdRateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// 404 - unknown region, location or species code
+export class EBirdNotFoundError extends EBirdApiError {
+  constructor(endpoint: string) {
+    super('The requested eBird resource was not found', endpoint, 404);
+    this.name = 'EBirdNotFoundError';
+  }
+}
+
+// The request never got a response (offline, DNS, timeout...)
+export class EBirdNetworkError extends EBirdApiError {
+  readonly cause: unknown;
+
+  constructor(endpoint: string, cause: unknown) {
+    super('Could not reach eBird, check your connection', endpoint);
+    this.name = 'EBirdNetworkError';
+    this.cause = cause;
+  }
+}
+
+export interface EBirdClient {
+  getRecentObservations: (query: RecentObservationsQuery) => Promise<RecentObservationsResponse>;
+  getNotableObservations: (query: RecentObservationsQuery) => Promise<NotableObservationsResponse>;
+  getNearestSpeciesObservations: (speciesCode: string, query: NearestSpeciesQuery) => Promise<NearestSpeciesResponse>;
+  getHistoricObservations: (query: HistoricObservationsQuery) => Promise<HistoricObservationsResponse>;
+  getRegionalObservations: (query: RegionalObservationsQuery) => Promise<RegionalObservationsResponse>;
+  getRegionalNotableObservations: (query: RegionalObservationsQuery) => Promise<RegionalObservationsResponse>;
+  getNearbyHotspots: (query: NearbyHotspotsQuery) => Promise<NearbyHotspotsResponse>;
+  getRegionalHotspots: (regionCode: string, back?: number) => Promise<RegionalHotspotsResponse>;
+  getSubregions: (regionType: RegionType, parentRegionCode: string) => Promise<RegionListResponse>;
+  getRegionInfo: (regionCode: string) => Promise<EBirdRegionInfo>;
+  getHotspotInfo: (locId: string) => Promise<EBirdHotspotInfo>;
+  getRecentChecklists: (locId: string, maxResults?: number) => Promise<ChecklistFeedResponse>; // locId or region code
+  getChecklist: (subId: string) => Promise<EBirdChecklistDetail>;
+  getSpeciesList: (regionCode: string) => Promise<SpeciesListResponse>;
+  getTaxonomy: (speciesCodes?: string[]) => Promise<TaxonomyResponse>;
+  // Resolves false if eBird rejects the key; network failures still throw
+  verifyApiKey: (apiKey?: string) => Promise<boolean>;
+}
+
+function buildQueryString(params: Record<string, QueryValue>) {
+  const parts = Object.entries(params)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`);
+
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+}
+
+function errorForResponse(endpoint: string, response: Response): EBirdApiError {
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new EBirdAuthError(endpoint, response.status);
+    case 404:
+      return new EBirdNotFoundError(endpoint);
+    case 429: {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      return new EBirdRateLimitError(endpoint, isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+    }
+    default:
+      return new EBirdApiError(`eBird request failed: ${response.status}`, endpoint, response.status);
+  }
+}
+
+export function createEBirdClient(options: EBirdClientOptions): EBirdClient {
+  const baseUrl = options.baseUrl || DEFAULT_BASE_URL;
+  const fetchImpl: FetchLike = options.fetch || ((url, init) => fetch(url, init));
+
+  const resolveApiKey = () =>
+    typeof options.apiKey === 'function' ? options.apiKey() : options.apiKey;
+
+  async function request<T>(
+    endpoint: string,
+    params: Record<string, QueryValue> = {},
+    apiKey: string | null = resolveApiKey()
+  ): Promise<T> {
+    if (!apiKey) {
+      throw new EBirdAuthError(endpoint, null);
+    }
+
+    const url = `${baseUrl}/${endpoint}${buildQueryString(params)}`;
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, {
+        headers: {
+          'X-eBirdApiToken': apiKey,
+        },
+      });
+    } catch (error) {
+      throw new EBirdNetworkError(endpoint, error);
+    }
+
+    if (!response.ok) {
+      throw errorForResponse(endpoint, response);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  return {
+    getRecentObservations: ({ lat, lng, distKm, back = 30, maxResults = null, hotspot = false }) =>
+      request<RecentObservationsResponse>('data/obs/geo/recent', {
+        lat,
+        lng,
+        back,
+        dist: distKm,
+        hotspot,
+        maxResults,
+      }),
+
+    getNotableObservations: ({ lat, lng, distKm, back = 30, maxResults = null, hotspot = false }) =>
+      request<NotableObservationsResponse>('data/obs/geo/recent/notable', {
+        lat,
+        lng,
+        back,
+        dist: distKm,
+        hotspot,
+        maxResults,
+      }),
+
+    getNearestSpeciesObservations: (speciesCode, { lat, lng, distKm = 50, back = 30, maxResults = 25 }) =>
+      request<NearestSpeciesResponse>(`data/nearest/geo/recent/${speciesCode}`, {
+        lat,
+        lng,
+        dist: distKm,
+        back,
+        maxResults,
+      }),
+
+    // Every species reported in the region on one past date
+    getHistoricObservations: ({ regionCode, year, month, day }) =>
+      request<HistoricObservationsResponse>(`data/obs/${regionCode}/historic/${year}/${month}/${day}`, {
+        rank: 'mrec',
+      }),
+
+    // regionCode can also be a hotspot's locId (L123456)
+    getRegionalObservations: ({ regionCode, back = 30, maxResults = null }) =>
+      request<RegionalObservationsResponse>(`data/obs/${regionCode}/recent`, { back, maxResults }),
+
+    getRegionalNotableObservations: ({ regionCode, back = 30, maxResults = null }) =>
+      request<RegionalObservationsResponse>(`data/obs/${regionCode}/recent/notable`, { back, maxResults }),
+
+    getNearbyHotspots: ({ lat, lng, distKm, back = 30 }) =>
+      request<NearbyHotspotsResponse>('ref/hotspot/geo', {
+        lat,
+        lng,
+        dist: distKm,
+        back,
+        fmt: 'json',
+      }),
+
+    getRegionalHotspots: (regionCode, back = 30) =>
+      request<RegionalHotspotsResponse>(`ref/hotspot/${regionCode}`, { back, fmt: 'json' }),
+
+    // Children of a region, e.g. subnational1 + "US" lists the states
+    getSubregions: (regionType, parentRegionCode) =>
+      request<RegionListResponse>(`ref/region/list/${regionType}/${parentRegionCode}`),
+
+    getRegionInfo: (regionCode) =>
+      request<EBirdRegionInfo>(`ref/region/info/${regionCode}`),
+
+    getHotspotInfo: (locId) =>
+      request<EBirdHotspotInfo>(`ref/hotspot/info/${locId}`),
+
+    getRecentChecklists: (locId, maxResults = 10) =>
+      request<ChecklistFeedResponse>(`product/lists/${locId}`, { maxResults }),
+
+    getChecklist: (subId) =>
+      request<EBirdChecklistDetail>(`product/checklist/view/${subId}`),
+
+    getSpeciesList: (regionCode) =>
+      request<SpeciesListResponse>(`product/spplist/${regionCode}`),
+
+    // Whole taxonomy, or just the given species
+    getTaxonomy: (speciesCodes) =>
+      request<TaxonomyResponse>('ref/taxonomy/ebird', {
+        fmt: 'json',
+        locale: 'en',
+        species: speciesCodes?.join(','),
+      }),
+
+    verifyApiKey: async (apiKey) => {
+      try {
+        await request<unknown>(VERIFY_KEY_ENDPOINT, {}, apiKey ?? resolveApiKey());
+        return true;
+      } catch (error) {
+        if (error instanceof EBirdAuthError) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,199 @@
+import { BirdObservation, PersonalSighting, LifeListEntry } from '@/types/birds';
+import { EBirdTaxon } from '@/types/ebird';
+import { parseCsv } from '@/utils/csv';
+
+// Columns we need from eBird's "Download My Data" export (MyEBirdData.csv)
+const REQUIRED_COLUMNS = ['Submission ID', 'Common Name', 'Scientific Name', 'Count', 'Date'];
+
+export interface EBirdDataRow {
+  subId: string;
+  comName: string;
+  sciName: string;
+  count: number | 'X';
+  locId: string;
+  locName: string;
+  lat: number;
+  lng: number;
+  date: string; // YYYY-MM-DD
+  time: string | null; // HH:mm, 24 hour
+}
+
+interface SpeciesRef {
+  speciesCode: string;
+  comName: string;
+  sciName: string;
+}
+
+// What a scientific name in the export resolves to
+export interface TaxonMatch extends SpeciesRef {
+  countsAs: SpeciesRef | null; // species it adds to the life list - null for spuhs, hybrids...
+}
+
+export type TaxonLookup = Map<string, TaxonMatch>; // keyed by lower-case scientific name
+
+export interface EBirdImportResult {
+  sightings: PersonalSighting[];
+  unmatchedNames: string[]; // scientific names we couldn't find a species code for
+  rowCount: number;
+}
+
+// Personal sightings are unique per species per checklist
+export const sightingKey = (subId: string, speciesCode: string) => `${subId}:${speciesCode}`;
+
+// "07:15 AM" -> "07:15"
+const to24Hour = (time: string): string | null => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours < 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+export function parseEBirdDataCsv(text: string): EBirdDataRow[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(name => name.trim());
+  const missing = REQUIRED_COLUMNS.filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`This doesn't look like an eBird data export (missing ${missing.join(', ')})`);
+  }
+
+  const index = (name: string) => columns.indexOf(name);
+  const value = (row: string[], name: string) => (index(name) >= 0 ? (row[index(name)] || '').trim() : '');
+
+  return rows
+    .map(row => {
+      const rawCount = value(row, 'Count');
+      const count = rawCount.toUpperCase() === 'X' ? 'X' : Number(rawCount);
+
+      return {
+        subId: value(row, 'Submission ID'),
+        comName: value(row, 'Common Name'),
+        sciName: value(row, 'Scientific Name'),
+        count: count === 'X' || isFinite(count) ? count : 'X',
+        locId: value(row, 'Location ID'),
+        locName: value(row, 'Location'),
+        lat: Number(value(row, 'Latitude')),
+        lng: Number(value(row, 'Longitude')),
+        date: value(row, 'Date'),
+        time: to24Hour(value(row, 'Time')),
+      } as EBirdDataRow;
+    })
+    .filter(row => row.subId && row.sciName && /^\d{4}-\d{2}-\d{2}$/.test(row.date));
+}
+
+// Lookup from the eBird taxonomy: subspecies groups roll up to their species,
+// spuhs, slashes and hybrids don't count towards a life list
+export function lookupFromTaxonomy(taxonomy: EBirdTaxon[]): TaxonLookup {
+  const byCode = new Map(taxonomy.map(taxon => [taxon.speciesCode, taxon]));
+  const lookup: TaxonLookup = new Map();
+
+  taxonomy.forEach(taxon => {
+    const parent = taxon.category === 'species' ? taxon : taxon.reportAs ? byCode.get(taxon.reportAs) : undefined;
+
+    lookup.set(taxon.sciName.toLowerCase(), {
+      speciesCode: taxon.speciesCode,
+      comName: taxon.comName,
+      sciName: taxon.sciName,
+      countsAs: parent
+        ? { speciesCode: parent.speciesCode, comName: parent.comName, sciName: parent.sciName }
+        : null,
+    });
+  });
+
+  return lookup;
+}
+
+// Lookup from reports already in the app, so small imports can work offline.
+// Only plain binomials are treated as full species.
+export function lookupFromObservations(observations: BirdObservation[]): TaxonLookup {
+  const lookup: TaxonLookup = new Map();
+
+  observations.forEach(obs => {
+    const ref = { speciesCode: obs.speciesCode, comName: obs.comName, sciName: obs.sciName };
+    const isSpecies = /^[A-Z][a-z]+ [a-z-]+$/.test(obs.sciName);
+    lookup.set(obs.sciName.toLowerCase(), { ...ref, countsAs: isSpecies ? ref : null });
+  });
+
+  return lookup;
+}
+
+export function unresolvedNames(rows: EBirdDataRow[], lookup: TaxonLookup): string[] {
+  const names = new Set<string>();
+  rows.forEach(row => {
+    if (!lookup.has(row.sciName.toLowerCase())) {
+      names.add(row.sciName);
+    }
+  });
+  return Array.from(names);
+}
+
+export function buildPersonalSightings(rows: EBirdDataRow[], lookup: TaxonLookup): EBirdImportResult {
+  const sightings = new Map<string, PersonalSighting>();
+  const unmatched = new Set<string>();
+
+  rows.forEach(row => {
+    const match = lookup.get(row.sciName.toLowerCase());
+    if (!match) {
+      unmatched.add(row.sciName);
+      return;
+    }
+
+    // One row per species per checklist - the export can repeat them
+    const key = sightingKey(row.subId, match.speciesCode);
+    if (sightings.has(key)) return;
+
+    sightings.set(key, {
+      subId: row.subId,
+      speciesCode: match.speciesCode,
+      comName: match.comName,
+      sciName: match.sciName,
+      locId: row.locId,
+      locName: row.locName,
+      obsDt: row.time ? `${row.date} ${row.time}` : row.date,
+      howMany: row.count,
+      lat: row.lat,
+      lng: row.lng,
+      obsValid: true,
+      obsReviewed: false,
+      locationPrivate: true, // the export doesn't say which locations are hotspots
+    });
+  });
+
+  return {
+    sightings: Array.from(sightings.values()),
+    unmatchedNames: Array.from(unmatched),
+    rowCount: rows.length,
+  };
+}
+
+// Earliest sighting of every countable species, ready for the life list
+export function lifeListFromSightings(sightings: PersonalSighting[], lookup: TaxonLookup): LifeListEntry[] {
+  const earliest = new Map<string, LifeListEntry>();
+
+  sightings.forEach(sighting => {
+    const species = lookup.get(sighting.sciName.toLowerCase())?.countsAs;
+    if (!species) return;
+
+    const date = sighting.obsDt.slice(0, 10);
+    const existing = earliest.get(species.speciesCode);
+    if (existing && existing.firstSeenDate <= date) return;
+
+    earliest.set(species.speciesCode, {
+      ...species,
+      firstSeenDate: date,
+      locName: sighting.locName,
+      lat: sighting.lat,
+      lng: sighting.lng,
+    });
+  });
+
+  return Array.from(earliest.values());
+}
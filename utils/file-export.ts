@@ -0,0 +1,28 @@
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Hand a generated text file to the user: a download on web, the share sheet on
+// native with the file written to the cache directory first
+export async function shareTextFile(filename: string, contents: string, mimeType: string) {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  // Without a share target for files (rare), fall back to sharing the contents as text
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    await Share.share({ title: filename, message: contents });
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: filename });
+}
@@ -0,0 +1,19 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+// Types CSV files are reported as - Android file providers disagree on the name
+export const CSV_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'application/csv', 'text/plain'];
+
+// Let the user pick a text file, e.g. an eBird data export, and read it; null if cancelled
+export async function pickTextFile(mimeTypes: string[]): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  if (Platform.OS === 'web') {
+    return asset.file ? asset.file.text() : (await fetch(asset.uri)).text();
+  }
+
+  return FileSystem.readAsStringAsync(asset.uri);
+}
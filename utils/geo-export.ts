@@ -0,0 +1,165 @@
+import { BirdObservation, Hotspot } from '@/types/birds';
+
+export type GeoExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const GEO_EXPORT_FORMATS: { format: GeoExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+];
+
+// One point in an export - a hotspot, a sighting location or a route stop
+export interface GeoPoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+  description?: string;
+  time?: string; // ISO 8601
+}
+
+// Escape text for XML element content
+const xml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const coordinate = (value: number) => value.toFixed(6);
+
+// eBird dates are local "YYYY-MM-DD HH:MM" strings
+const isoTime = (obsDt: string) => {
+  const date = new Date(obsDt.replace(' ', 'T'));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+export function hotspotPoints(hotspots: Hotspot[]): GeoPoint[] {
+  return hotspots.map(hotspot => ({
+    name: hotspot.locName,
+    latitude: hotspot.lat,
+    longitude: hotspot.lng,
+    description: [
+      hotspot.numSpeciesAllTime ? `${hotspot.numSpeciesAllTime} species all time` : null,
+      `https://ebird.org/hotspot/${hotspot.locId}`,
+    ].filter(Boolean).join(' - '),
+  }));
+}
+
+// One point per sighting location, listing what was seen there
+export function sightingPoints(birds: BirdObservation[]): GeoPoint[] {
+  const byLocation: Record<string, BirdObservation[]> = {};
+  birds.forEach(bird => {
+    byLocation[bird.locId] = [...(byLocation[bird.locId] || []), bird];
+  });
+
+  return Object.values(byLocation).map(reports => ({
+    name: reports[0].locName,
+    latitude: reports[0].lat,
+    longitude: reports[0].lng,
+    description: reports.map(bird => `${bird.comName} (${bird.howMany ?? 'X'}, ${bird.obsDt})`).join('; '),
+    time: isoTime(reports[0].obsDt),
+  }));
+}
+
+// Waypoints, plus an ordered route through them when `isRoute` is set
+export function toGpx(name: string, points: GeoPoint[], isRoute: boolean = false): string {
+  // GPX 1.1 fixes the child order: time, then name, then desc
+  const pointBody = (point: GeoPoint) => [
+    point.time ? `    <time>${point.time}</time>` : null,
+    `    <name>${xml(point.name)}</name>`,
+    point.description ? `    <desc>${xml(point.description)}</desc>` : null,
+  ].filter(Boolean).join('\n');
+
+  const waypoints = points.map(point =>
+    `  <wpt lat="${coordinate(point.latitude)}" lon="${coordinate(point.longitude)}">\n${pointBody(point)}\n  </wpt>`
+  );
+  const route = isRoute
+    ? [
+        '  <rte>',
+        `    <name>${xml(name)}</name>`,
+        ...points.map(point =>
+          `    <rtept lat="${coordinate(point.latitude)}" lon="${coordinate(point.longitude)}"><name>${xml(point.name)}</name></rtept>`
+        ),
+        '  </rte>',
+      ]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Fledgling" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${xml(name)}</name></metadata>`,
+    ...waypoints,
+    ...route,
+    '</gpx>',
+  ].join('\n');
+}
+
+// KML wants longitude first
+export function toKml(name: string, points: GeoPoint[], isRoute: boolean = false): string {
+  const placemarks = points.map(point => [
+    '    <Placemark>',
+    `      <name>${xml(point.name)}</name>`,
+    point.description ? `      <description>${xml(point.description)}</description>` : null,
+    point.time ? `      <TimeStamp><when>${point.time}</when></TimeStamp>` : null,
+    `      <Point><coordinates>${coordinate(point.longitude)},${coordinate(point.latitude)}</coordinates></Point>`,
+    '    </Placemark>',
+  ].filter(Boolean).join('\n'));
+
+  const route = isRoute
+    ? [
+        '    <Placemark>',
+        `      <name>${xml(name)}</name>`,
+        '      <LineString><coordinates>',
+        points.map(point => `${coordinate(point.longitude)},${coordinate(point.latitude)}`).join(' '),
+        '      </coordinates></LineString>',
+        '    </Placemark>',
+      ]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xml(name)}</name>`,
+    ...placemarks,
+    ...route,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+export function toGeoJson(name: string, points: GeoPoint[], isRoute: boolean = false): string {
+  const features: object[] = points.map(point => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+    properties: {
+      name: point.name,
+      ...(point.description ? { description: point.description } : {}),
+      ...(point.time ? { time: point.time } : {}),
+    },
+  }));
+
+  if (isRoute) {
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: points.map(point => [point.longitude, point.latitude]) },
+      properties: { name },
+    });
+  }
+
+  return JSON.stringify({ type: 'FeatureCollection', name, features }, null, 2);
+}
+
+// File name and contents for a set of points in the chosen format
+export function buildGeoExport(
+  baseName: string,
+  title: string,
+  points: GeoPoint[],
+  format: GeoExportFormat,
+  isRoute: boolean = false
+): { filename: string; contents: string; mimeType: string } {
+  const { extension, mimeType } = GEO_EXPORT_FORMATS.find(option => option.format === format)!;
+  const contents = format === 'gpx'
+    ? toGpx(title, points, isRoute)
+    : format === 'kml'
+      ? toKml(title, points, isRoute)
+      : toGeoJson(title, points, isRoute);
+
+  return { filename: `${baseName}.${extension}`, contents, mimeType };
+}
@@ -0,0 +1,125 @@
+import { LocationState } from '@/types/birds';
+
+export const EARTH_RADIUS_KM = 6371;
+export const KM_PER_MILE = 1.609344;
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export const milesToKm = (miles: number) => miles * KM_PER_MILE;
+export const kmToMiles = (km: number) => km / KM_PER_MILE;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle (haversine) distance between two coordinates in kilometers
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export const distanceMiles = (lat1: number, lon1: number, lat2: number, lon2: number) =>
+  kmToMiles(distanceKm(lat1, lon1, lat2, lon2));
+
+// Initial compass bearing from the first coordinate to the second, 0-360 with 0 = north
+export function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(toRadians(lat2));
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLon);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Nearest of the eight compass points, e.g. 100° -> "E"
+export const compassDirection = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Box that contains a circle of this radius; longitude span widens toward the poles
+export function boundingBox(center: LocationState, radiusKm: number): BoundingBox {
+  const latDelta = toDegrees(radiusKm / EARTH_RADIUS_KM);
+  const lngDelta = toDegrees(radiusKm / (EARTH_RADIUS_KM * Math.max(0.01, Math.cos(toRadians(center.latitude)))));
+
+  return {
+    minLat: Math.max(-90, center.latitude - latDelta),
+    maxLat: Math.min(90, center.latitude + latDelta),
+    minLng: center.longitude - lngDelta,
+    maxLng: center.longitude + lngDelta,
+  };
+}
+
+// Centers of overlapping circles that together cover a larger circle. Circles sit on
+// a hexagonal grid, the tightest packing where every point is within one radius of a center.
+export function hexTileCenters(center: LocationState, radiusKm: number, tileRadiusKm: number): LocationState[] {
+  if (radiusKm <= tileRadiusKm) return [center];
+
+  // Slightly tighter than exact packing so the flat grid still covers the curved earth
+  const spacingKm = tileRadiusKm * 0.95;
+  const columnSpacing = Math.sqrt(3) * spacingKm;
+  const rowSpacing = 1.5 * spacingKm;
+  const rows = Math.ceil((radiusKm + tileRadiusKm) / rowSpacing);
+  const columns = Math.ceil((radiusKm + tileRadiusKm) / columnSpacing) + 1;
+  const cosLat = Math.max(0.01, Math.cos(toRadians(center.latitude)));
+  const centers: LocationState[] = [];
+
+  for (let row = -rows; row <= rows; row++) {
+    const offset = row % 2 === 0 ? 0 : columnSpacing / 2;
+    for (let column = -columns; column <= columns; column++) {
+      const x = column * columnSpacing + offset; // km east
+      const y = row * rowSpacing; // km north
+
+      // Every point in the area is within one spacing of some center, so farther tiles aren't needed
+      if (Math.sqrt(x * x + y * y) > radiusKm + spacingKm) continue;
+
+      centers.push({
+        latitude: center.latitude + toDegrees(y / EARTH_RADIUS_KM),
+        longitude: center.longitude + toDegrees(x / (EARTH_RADIUS_KM * cosLat)),
+      });
+    }
+  }
+
+  return centers;
+}
+
+export const distanceUnit = (units: UnitSystem) => (units === 'metric' ? 'km' : 'mi');
+export const distanceUnitName = (units: UnitSystem) => (units === 'metric' ? 'km' : 'miles');
+
+// A distance in the user's units, e.g. "3.2 mi" or "5.1 km"
+export function formatDistance(km: number, units: UnitSystem, digits: number = 1, long: boolean = false): string {
+  const value = units === 'metric' ? km : kmToMiles(km);
+  const unit = long ? distanceUnitName(units) : distanceUnit(units);
+
+  // Very close reports would otherwise read "0.0 mi"
+  if (value > 0 && value < Math.pow(10, -digits)) {
+    return `< ${Math.pow(10, -digits).toFixed(digits)} ${unit}`;
+  }
+
+  return `${value.toFixed(digits)} ${unit}`;
+}
+
+// Search radii are stored in miles; whole numbers read better in either unit
+export function formatRadius(radiusMiles: number, units: UnitSystem, long: boolean = false): string {
+  const value = units === 'metric' ? milesToKm(radiusMiles) : radiusMiles;
+  const rounded = Math.round(value * 10) / 10;
+  return `${rounded} ${long ? distanceUnitName(units) : distanceUnit(units)}`;
+}
+
+// Radius choices in each unit system, as miles for the store
+export const RADIUS_OPTIONS_MILES: Record<UnitSystem, number[]> = {
+  imperial: [5, 10, 15, 25],
+  metric: [5, 10, 25, 40].map(kmToMiles),
+};
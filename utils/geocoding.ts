@@ -0,0 +1,30 @@
+import { LocationState } from '@/types/birds';
+import { GEOCODER_URL, GEOCODER_EMAIL, identifyingHeaders } from '@/utils/map-providers';
+
+export interface PlaceSearchResult extends LocationState {
+  name: string;
+}
+
+// Free-text place search via Nominatim (OpenStreetMap's by default). Only run on submit,
+// never as-you-type - the public server allows about one request a second.
+export async function searchPlaces(query: string): Promise<PlaceSearchResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const email = GEOCODER_EMAIL ? `&email=${encodeURIComponent(GEOCODER_EMAIL)}` : '';
+  const url = `${GEOCODER_URL}/search?q=${encodeURIComponent(trimmed)}&format=json&limit=5${email}`;
+  const response = await fetch(url, {
+    headers: { 'Accept-Language': 'en', ...identifyingHeaders() },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Place search failed: ${response.status}`);
+  }
+
+  const results: { display_name: string; lat: string; lon: string }[] = await response.json();
+  return results.map(result => ({
+    name: result.display_name,
+    latitude: Number(result.lat),
+    longitude: Number(result.lon),
+  }));
+}
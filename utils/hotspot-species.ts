@@ -0,0 +1,53 @@
+import { BirdObservation, Hotspot } from '@/types/birds';
+import { EBirdChecklistDetail, EBirdTaxon } from '@/types/ebird';
+
+interface SpeciesName {
+  comName: string;
+  sciName: string;
+}
+
+// Names for every species code we might meet at the hotspot
+export function speciesNamesFor(recent: BirdObservation[], allTime: EBirdTaxon[]): Map<string, SpeciesName> {
+  const names = new Map<string, SpeciesName>();
+  allTime.forEach(taxon => names.set(taxon.speciesCode, { comName: taxon.comName, sciName: taxon.sciName }));
+  recent.forEach(obs => names.set(obs.speciesCode, { comName: obs.comName, sciName: obs.sciName }));
+  return names;
+}
+
+// One report per species per checklist, so the scoring engine can see how often
+// each species turns up on recent visits. Species recently reported but absent
+// from the sampled checklists are added from the recent observations.
+export function hotspotObservations(
+  hotspot: Hotspot,
+  checklists: EBirdChecklistDetail[],
+  recent: BirdObservation[],
+  names: Map<string, SpeciesName>
+): BirdObservation[] {
+  const observations: BirdObservation[] = [];
+
+  checklists.forEach(checklist => {
+    checklist.obs.forEach(line => {
+      const name = names.get(line.speciesCode);
+      if (!name) return; // spuhs and other non-species entries
+
+      const count = Number(line.howManyStr);
+      observations.push({
+        speciesCode: line.speciesCode,
+        comName: name.comName,
+        sciName: name.sciName,
+        locId: hotspot.locId,
+        locName: hotspot.locName,
+        obsDt: checklist.obsDt,
+        howMany: line.howManyStr.toUpperCase() === 'X' || !isFinite(count) ? 'X' : count,
+        lat: hotspot.lat,
+        lng: hotspot.lng,
+        obsValid: true,
+        obsReviewed: false,
+        locationPrivate: false,
+      });
+    });
+  });
+
+  const sampled = new Set(observations.map(obs => obs.speciesCode));
+  return [...observations, ...recent.filter(obs => !sampled.has(obs.speciesCode))];
+}
@@ -0,0 +1,32 @@
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+// Place search defaults to OpenStreetMap's Nominatim, which only allows light use; point
+// EXPO_PUBLIC_GEOCODER_URL (or app.json `extra.geocoderUrl`) at another Nominatim-compatible
+// service for anything heavier
+export const GEOCODER_URL: string =
+  process.env.EXPO_PUBLIC_GEOCODER_URL || extra.geocoderUrl || 'https://nominatim.openstreetmap.org';
+
+// Contact address sent with place searches so the provider can reach us instead of blocking
+export const GEOCODER_EMAIL: string | null = process.env.EXPO_PUBLIC_GEOCODER_EMAIL || extra.geocoderEmail || null;
+
+// Raster tiles as a {z}/{x}/{y} template. tile.openstreetmap.org is fine for occasional
+// use but not for a published app - set EXPO_PUBLIC_MAP_TILE_URL (or `extra.mapTileUrl`)
+// and the matching attribution to use another provider.
+export const MAP_TILE_URL: string =
+  process.env.EXPO_PUBLIC_MAP_TILE_URL || extra.mapTileUrl || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const MAP_ATTRIBUTION: string =
+  process.env.EXPO_PUBLIC_MAP_ATTRIBUTION || extra.mapAttribution || '© OpenStreetMap contributors';
+
+const appVersion = Constants.expoConfig?.version ?? '1.0.0';
+const appId = Constants.expoConfig?.ios?.bundleIdentifier ?? Constants.expoConfig?.android?.package ?? 'fledgling';
+
+// OpenStreetMap's usage policies require an app-specific User-Agent. Browsers don't let
+// pages set one and send a Referer instead, so this only applies on native.
+export const APP_USER_AGENT = `Fledgling/${appVersion} (${appId})`;
+
+export const identifyingHeaders = (): Record<string, string> =>
+  Platform.OS === 'web' ? {} : { 'User-Agent': APP_USER_AGENT };
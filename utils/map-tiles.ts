@@ -0,0 +1,118 @@
+import { MAP_TILE_URL } from '@/utils/map-providers';
+import { LocationState } from '@/types/birds';
+import { BoundingBox } from '@/utils/geo';
+
+// Web Mercator helpers for drawing OpenStreetMap raster tiles
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 18;
+
+export interface WorldPoint {
+  x: number; // pixels from the left edge of the world at this zoom
+  y: number; // pixels from the top edge
+}
+
+export function project(latitude: number, longitude: number, zoom: number): WorldPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180);
+
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function unproject(x: number, y: number, zoom: number): { latitude: number; longitude: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+export const tileUrl = (x: number, y: number, zoom: number) =>
+  MAP_TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const EARTH_CIRCUMFERENCE_M = 40075016.686;
+
+// Ground distance covered by one pixel at this latitude and zoom
+export function metersPerPixel(latitude: number, zoom: number): number {
+  return (EARTH_CIRCUMFERENCE_M * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * Math.pow(2, zoom));
+}
+
+export interface PointCluster<T> {
+  items: T[];
+  x: number; // average position of the items, in the same pixel space as the input
+  y: number;
+}
+
+// Grid clustering: points that land in the same cell are drawn as one marker
+export function clusterPoints<T>(
+  items: T[],
+  position: (item: T) => WorldPoint,
+  cellSize: number
+): PointCluster<T>[] {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  items.forEach(item => {
+    const { x, y } = position(item);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) || { items: [], sumX: 0, sumY: 0 };
+    cell.items.push(item);
+    cell.sumX += x;
+    cell.sumY += y;
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values()).map(cell => ({
+    items: cell.items,
+    x: cell.sumX / cell.items.length,
+    y: cell.sumY / cell.items.length,
+  }));
+}
+
+// Highest zoom at which a circle of this radius fits inside the viewport
+export function zoomForRadius(latitude: number, radiusKm: number, viewportPx: number): number {
+  const metersAtZoomZero = metersPerPixel(latitude, 0) * viewportPx;
+  const zoom = Math.floor(Math.log2(metersAtZoomZero / (radiusKm * 2000)));
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+// Highest zoom at which the whole box fits inside a viewport of this size
+export function zoomForBounds(bounds: BoundingBox, viewportWidthPx: number, viewportHeightPx: number): number {
+  const topLeft = project(bounds.maxLat, bounds.minLng, 0);
+  const bottomRight = project(bounds.minLat, bounds.maxLng, 0);
+  const spanX = Math.max(1e-9, bottomRight.x - topLeft.x);
+  const spanY = Math.max(1e-9, bottomRight.y - topLeft.y);
+
+  const zoom = Math.floor(Math.log2(Math.min(viewportWidthPx / spanX, viewportHeightPx / spanY)));
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+// Zoom used for a region search when its extent isn't known yet
+const REGION_FALLBACK_RADIUS_KM = 50;
+
+// Where a map of the current search should look: the region when searching one (no GPS
+// needed), otherwise the circle around the user's location. Null until there is a centre.
+export function searchMapView(
+  search: {
+    location: LocationState | null;
+    isRegion: boolean;
+    searchCenter: LocationState | null;
+    searchBounds: BoundingBox | null;
+    radiusKm: number;
+  },
+  viewportWidthPx: number,
+  viewportHeightPx: number
+): { center: LocationState; zoom: number } | null {
+  const center = search.isRegion ? search.searchCenter ?? search.location : search.location;
+  if (!center) return null;
+
+  if (search.isRegion && search.searchBounds) {
+    return { center, zoom: zoomForBounds(search.searchBounds, viewportWidthPx, viewportHeightPx) };
+  }
+  const radiusKm = search.isRegion ? REGION_FALLBACK_RADIUS_KM : search.radiusKm;
+  return { center, zoom: zoomForRadius(center.latitude, radiusKm, viewportWidthPx) };
+}
@@ -0,0 +1,7 @@
+import { EBirdNetworkError } from '@/utils/ebird-client';
+
+// True when a failure means "no connectivity" rather than a bad response.
+// fetch itself rejects with a TypeError ("Network request failed") on both RN and web.
+export function isNetworkError(error: unknown) {
+  return error instanceof EBirdNetworkError || (error instanceof TypeError && /network|fetch/i.test(error.message));
+}
@@ -0,0 +1,23 @@
+import { BirdObservation } from '@/types/birds';
+
+// Flag every bird whose species eBird has reported as notable nearby
+export function markNotableBirds<T extends BirdObservation>(birds: T[], notableObservations: BirdObservation[]): T[] {
+  const notableCodes = new Set(notableObservations.map(obs => obs.speciesCode));
+  return birds.map(bird => (notableCodes.has(bird.speciesCode) ? { ...bird, isNotable: true } : bird));
+}
+
+// The notable feed has one entry per species per location - keep the most recent report per species
+export function latestNotableBySpecies(notableObservations: BirdObservation[]): BirdObservation[] {
+  const latest = new Map<string, BirdObservation>();
+
+  notableObservations.forEach(obs => {
+    const existing = latest.get(obs.speciesCode);
+    if (!existing || new Date(obs.obsDt).getTime() > new Date(existing.obsDt).getTime()) {
+      latest.set(obs.speciesCode, { ...obs, isNotable: true });
+    }
+  });
+
+  return Array.from(latest.values()).sort(
+    (a, b) => new Date(b.obsDt).getTime() - new Date(a.obsDt).getTime()
+  );
+}
@@ -0,0 +1,43 @@
+import { LocationState } from '@/types/birds';
+import { BoundingBox } from '@/utils/geo';
+import { EBirdRegion, EBirdRegionInfo, RegionType } from '@/types/ebird';
+
+// Top of the region hierarchy - its children are the countries
+export const WORLD_REGION: EBirdRegion = { code: 'world', name: 'World' };
+
+// Which level lists the children of a region: world -> countries -> states -> counties.
+// Counties (three-part codes like US-NY-047) have no children.
+export function childRegionType(regionCode: string): RegionType | null {
+  if (regionCode === WORLD_REGION.code) return 'country';
+
+  switch (regionCode.split('-').length) {
+    case 1:
+      return 'subnational1';
+    case 2:
+      return 'subnational2';
+    default:
+      return null;
+  }
+}
+
+// Middle of the region's bounding box, used as the reference point for distances
+export function regionCenter(info: EBirdRegionInfo): LocationState | null {
+  if (!info.bounds) return null;
+
+  return {
+    latitude: (info.bounds.minY + info.bounds.maxY) / 2,
+    longitude: (info.bounds.minX + info.bounds.maxX) / 2,
+  };
+}
+
+// The region's bounding box, for fitting a map to it
+export function regionBounds(info: EBirdRegionInfo): BoundingBox | null {
+  if (!info.bounds) return null;
+
+  return {
+    minLat: info.bounds.minY,
+    maxLat: info.bounds.maxY,
+    minLng: info.bounds.minX,
+    maxLng: info.bounds.maxX,
+  };
+}
@@ -0,0 +1,195 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CACHE_PREFIX = 'ebird-cache:';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// How long each kind of eBird response is considered fresh
+export const CACHE_TTLS = {
+  recentObservations: 30 * MINUTE, // sightings change through the day
+  notableObservations: 30 * MINUTE,
+  speciesObservations: 30 * MINUTE,
+  historicObservations: 30 * 24 * HOUR, // past dates rarely change
+  regionalObservations: 30 * MINUTE,
+  regionalNotableObservations: 30 * MINUTE,
+  nearbyHotspots: 12 * HOUR, // hotspot lists barely move
+  regionalHotspots: 12 * HOUR,
+  subregions: 30 * 24 * HOUR, // region boundaries almost never change
+  regionInfo: 30 * 24 * HOUR,
+  hotspotInfo: 30 * 24 * HOUR,
+  recentChecklists: HOUR,
+  hotspotObservations: 30 * MINUTE,
+  checklistDetail: 30 * 24 * HOUR, // submitted checklists are rarely edited
+  speciesList: 7 * 24 * HOUR,
+  speciesTaxa: 30 * 24 * HOUR,
+};
+
+export type CacheEndpoint = keyof typeof CACHE_TTLS;
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number; // epoch ms
+}
+
+export interface CachedResult<T> {
+  data: T;
+  fetchedAt: number;
+  isStale: boolean; // true while a background refresh is running
+}
+
+interface CachedFetchOptions<T> {
+  endpoint: CacheEndpoint;
+  key: string;
+  fetcher: () => Promise<T>;
+  // Called with fresh data when a stale entry has been revalidated in the background
+  onRevalidated?: (result: CachedResult<T>) => void;
+  // Called when that background refresh fails (e.g. the device is offline)
+  onRevalidateError?: (error: unknown) => void;
+  // Skip the cache and fetch, e.g. for pull-to-refresh
+  force?: boolean;
+}
+
+// Old entries still serve offline fallbacks, but not forever
+const MAX_ENTRY_AGE = 7 * 24 * HOUR;
+const MAX_ENTRIES = 250;
+
+// Background refreshes already running, so repeated opens don't stack requests
+const revalidating = new Set<string>();
+
+// Round coordinates to ~1km so small GPS jitter still hits the cache
+const roundCoord = (value: number) => Math.round(value * 100) / 100;
+
+export function buildCacheKey(
+  endpoint: CacheEndpoint,
+  params: { lat?: number; lng?: number; [key: string]: string | number | boolean | null | undefined }
+) {
+  const normalized = Object.keys(params)
+    .sort()
+    .map((name) => {
+      const value = params[name];
+      const rounded = (name === 'lat' || name === 'lng') && typeof value === 'number' ? roundCoord(value) : value;
+      return `${name}=${rounded ?? ''}`;
+    });
+
+  return `${CACHE_PREFIX}${endpoint}?${normalized.join('&')}`;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch (error) {
+    console.error('Error reading response cache:', error);
+    return null;
+  }
+}
+
+async function writeEntry<T>(key: string, data: T): Promise<CacheEntry<T>> {
+  const entry: CacheEntry<T> = { data, fetchedAt: Date.now() };
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(entry));
+  } catch (error) {
+    // A failed write only costs us a refetch next time
+    console.error('Error writing response cache:', error);
+  }
+  return entry;
+}
+
+// Stale-while-revalidate: fresh entries are returned as-is, stale entries are
+// returned immediately while a refresh runs in the background, and misses fetch.
+export async function cachedFetch<T>({
+  endpoint,
+  key,
+  fetcher,
+  onRevalidated,
+  onRevalidateError,
+  force = false,
+}: CachedFetchOptions<T>): Promise<CachedResult<T>> {
+  schedulePrune();
+
+  const cached = force ? null : await readEntry<T>(key);
+
+  if (cached) {
+    const isStale = Date.now() - cached.fetchedAt > CACHE_TTLS[endpoint];
+
+    if (isStale && !revalidating.has(key)) {
+      revalidating.add(key);
+      fetcher()
+        .then((data) => writeEntry(key, data))
+        .then((entry) => onRevalidated?.({ ...entry, isStale: false }))
+        .catch((error) => {
+          console.error('Error revalidating cached response:', error);
+          onRevalidateError?.(error);
+        })
+        .finally(() => revalidating.delete(key));
+    }
+
+    return { ...cached, isStale };
+  }
+
+  const entry = await writeEntry(key, await fetcher());
+  return { ...entry, isStale: false };
+}
+
+const endpointOf = (key: string) => key.slice(CACHE_PREFIX.length).split('?')[0] as CacheEndpoint;
+
+// Drops entries past both their TTL and MAX_ENTRY_AGE, then the oldest beyond MAX_ENTRIES,
+// so every new location or radius doesn't stay in storage forever
+export async function pruneResponseCache(now: number = Date.now()) {
+  const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(CACHE_PREFIX));
+  const entries = await AsyncStorage.multiGet(keys);
+  const expired: string[] = [];
+  const kept: { key: string; fetchedAt: number }[] = [];
+
+  entries.forEach(([key, raw]) => {
+    let fetchedAt = 0;
+    try {
+      fetchedAt = raw ? (JSON.parse(raw) as CacheEntry<unknown>).fetchedAt || 0 : 0;
+    } catch {
+      // Unreadable entries are dropped below
+    }
+
+    const maxAge = Math.max(CACHE_TTLS[endpointOf(key)] ?? 0, MAX_ENTRY_AGE);
+    if (now - fetchedAt > maxAge) {
+      expired.push(key);
+    } else {
+      kept.push({ key, fetchedAt });
+    }
+  });
+
+  kept.sort((a, b) => b.fetchedAt - a.fetchedAt);
+  const excess = kept.slice(MAX_ENTRIES).map((entry) => entry.key);
+
+  if (expired.length + excess.length > 0) {
+    await AsyncStorage.multiRemove([...expired, ...excess]);
+  }
+}
+
+// Prune once per app session, after the first request rather than at startup
+let pruneScheduled = false;
+
+function schedulePrune() {
+  if (pruneScheduled) return;
+  pruneScheduled = true;
+  setTimeout(() => {
+    pruneResponseCache().catch((error) => console.error('Error pruning response cache:', error));
+  }, 10 * 1000);
+}
+
+export async function clearResponseCache() {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(CACHE_PREFIX)));
+}
+
+// "as of 3:42 PM", or with the date when it isn't from today
+export function formatDataAsOf(fetchedAt: number) {
+  const date = new Date(fetchedAt);
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  if (date.toDateString() === new Date().toDateString()) {
+    return `as of ${time}`;
+  }
+
+  return `as of ${date.toLocaleDateString([], { month: 'short', day: 'numeric' })}, ${time}`;
+}
@@ -0,0 +1,41 @@
+import { milesToKm, kmToMiles, RADIUS_OPTIONS_MILES, UnitSystem } from '@/utils/geo';
+
+// eBird rejects nearby searches wider than this
+export const EBIRD_MAX_RADIUS_KM = 50;
+export const EBIRD_MAX_RADIUS_MILES = kmToMiles(EBIRD_MAX_RADIUS_KM);
+
+// Range offered by the custom radius slider, in miles like the stored radius
+export const MIN_RADIUS_MILES = 1;
+export const MAX_RADIUS_MILES = 100;
+
+// Radius a single eBird query actually covers
+export const queryRadiusKm = (radiusMiles: number) => Math.min(milesToKm(radiusMiles), EBIRD_MAX_RADIUS_KM);
+
+export const exceedsEBirdLimit = (radiusMiles: number) => milesToKm(radiusMiles) > EBIRD_MAX_RADIUS_KM + 1e-6;
+
+// Large searches are split into several queries when the user allows it, otherwise capped
+export const shouldTileSearch = (radiusMiles: number, tileLargeSearches: boolean) =>
+  tileLargeSearches && exceedsEBirdLimit(radiusMiles);
+
+// Radius the results really cover, for labels and map circles
+export const searchedRadiusMiles = (radiusMiles: number, tileLargeSearches: boolean) =>
+  shouldTileSearch(radiusMiles, tileLargeSearches) ? radiusMiles : Math.min(radiusMiles, EBIRD_MAX_RADIUS_MILES);
+
+export const isSearchCapped = (radiusMiles: number, tileLargeSearches: boolean) =>
+  exceedsEBirdLimit(radiusMiles) && !tileLargeSearches;
+
+// Radius a fresh install starts with, before any unit preference is set
+export const DEFAULT_SEARCH_RADIUS_MILES = RADIUS_OPTIONS_MILES.imperial[0];
+
+// Stored kilometre radii are fractional miles, so compare with a little slack
+const sameRadius = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+// When a search at the starting radius (the install default, or the smallest option in the
+// user's units) finds nothing, the next option up in those units; otherwise null
+export function autoExpandedRadius(radiusMiles: number, units: UnitSystem): number | null {
+  const options = RADIUS_OPTIONS_MILES[units];
+  const isStartingRadius = sameRadius(radiusMiles, DEFAULT_SEARCH_RADIUS_MILES) || sameRadius(radiusMiles, options[0]);
+  if (!isStartingRadius) return null;
+
+  return options.find(option => option > radiusMiles + 1e-6) ?? null;
+}
@@ -0,0 +1,121 @@
+import { BirdObservation, Hotspot, SeasonalSpeciesStats } from '@/types/birds';
+import { ScoredBird } from '@/utils/bird-scoring';
+
+// Share of sampled days a species needs to count as expected this season
+const EXPECTED_FREQUENCY = 0.5;
+
+// Past dates sampled around today: the same weeks in each of the last few years
+export const SEASONAL_YEARS_BACK = 3;
+export const SEASONAL_DAY_OFFSETS = [-7, 0, 7];
+
+export interface SeasonalSampleDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export function seasonalSampleDates(today: Date = new Date()): SeasonalSampleDate[] {
+  const dates: SeasonalSampleDate[] = [];
+
+  for (let yearsBack = 1; yearsBack <= SEASONAL_YEARS_BACK; yearsBack++) {
+    SEASONAL_DAY_OFFSETS.forEach(offset => {
+      const date = new Date(today.getFullYear() - yearsBack, today.getMonth(), today.getDate() + offset);
+      dates.push({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+    });
+  }
+
+  return dates;
+}
+
+// eBird's historic endpoint works on regions, so use the county most nearby
+// hotspots belong to (falling back to the state)
+export function regionForHotspots(hotspots: Hotspot[]): string | null {
+  const counts = new Map<string, number>();
+  hotspots.forEach(hotspot => {
+    const code = hotspot.subnational2Code || hotspot.subnational1Code;
+    if (code) {
+      counts.set(code, (counts.get(code) || 0) + 1);
+    }
+  });
+
+  let best: string | null = null;
+  let bestCount = 0;
+  counts.forEach((count, code) => {
+    if (count > bestCount) {
+      best = code;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+// Turn one list of reports per sampled day into per-species frequencies
+export function buildSeasonalStats(dailyObservations: BirdObservation[][]): Record<string, SeasonalSpeciesStats> {
+  const stats: Record<string, SeasonalSpeciesStats> = {};
+  const daysSampled = dailyObservations.length;
+
+  dailyObservations.forEach(observations => {
+    const seenToday = new Set<string>();
+
+    observations.forEach(obs => {
+      const existing = stats[obs.speciesCode];
+      if (!existing) {
+        stats[obs.speciesCode] = { daysReported: 0, daysSampled, sample: obs };
+      } else if (new Date(obs.obsDt).getTime() > new Date(existing.sample.obsDt).getTime()) {
+        existing.sample = obs;
+      }
+
+      if (!seenToday.has(obs.speciesCode)) {
+        seenToday.add(obs.speciesCode);
+        stats[obs.speciesCode].daysReported += 1;
+      }
+    });
+  });
+
+  return stats;
+}
+
+// Blend past-year frequency into each likelihood and add species that are
+// usually around now but haven't been reported in the last 30 days.
+// seasonalWeight is the share of the final score taken from the seasonal model.
+export function applySeasonalModel(
+  birds: ScoredBird[],
+  stats: Record<string, SeasonalSpeciesStats>,
+  seasonalWeight: number
+): BirdObservation[] {
+  const weight = Math.min(1, Math.max(0, seasonalWeight));
+  const frequencyOf = (speciesCode: string) => {
+    const species = stats[speciesCode];
+    return species && species.daysSampled > 0 ? species.daysReported / species.daysSampled : 0;
+  };
+
+  const reported = birds.map(bird => {
+    const frequency = frequencyOf(bird.speciesCode);
+    const blended = (1 - weight) * bird.likelihood + weight * frequency * 99;
+
+    return {
+      ...bird,
+      likelihood: Math.min(99, Math.round(blended)),
+      seasonalFrequency: frequency,
+    };
+  });
+
+  const reportedCodes = new Set(birds.map(bird => bird.speciesCode));
+  const expected = Object.entries(stats)
+    .filter(([speciesCode]) => !reportedCodes.has(speciesCode))
+    .filter(([speciesCode]) => frequencyOf(speciesCode) >= EXPECTED_FREQUENCY)
+    .map(([speciesCode, species]) => {
+      const frequency = frequencyOf(speciesCode);
+      return {
+        ...species.sample,
+        likelihood: Math.min(99, Math.round(weight * frequency * 99)),
+        likelihoodBreakdown: undefined,
+        isNotable: false,
+        seasonalFrequency: frequency,
+        isExpected: true,
+      };
+    });
+
+  return [...reported, ...expected].sort((a, b) => b.likelihood - a.likelihood);
+}
@@ -0,0 +1,99 @@
+import { BirdObservation } from '@/types/birds';
+import { spreadsheetCsvField } from '@/utils/csv';
+
+// Columns for spreadsheets, in the same order as the list's scoring breakdown
+const CSV_COLUMNS = [
+  'species_code',
+  'common_name',
+  'scientific_name',
+  'likelihood',
+  'frequency_score',
+  'recency_score',
+  'volume_score',
+  'consistency_score',
+  'distance_score',
+  'activity_factor',
+  'seasonal_frequency',
+  'notable',
+  'expected',
+  'last_seen',
+  'location',
+  'location_id',
+  'latitude',
+  'longitude',
+  'count',
+];
+
+const round = (value: number | undefined, digits: number = 2) =>
+  value === undefined || isNaN(value) ? null : Number(value.toFixed(digits));
+
+// One record per species as it appears in the list
+function sightingRecord(bird: BirdObservation) {
+  const breakdown = bird.likelihoodBreakdown;
+
+  return {
+    speciesCode: bird.speciesCode,
+    comName: bird.comName,
+    sciName: bird.sciName,
+    likelihood: round(bird.likelihood, 0),
+    scores: {
+      frequency: round(breakdown?.frequencyScore),
+      recency: round(breakdown?.recencyScore),
+      volume: round(breakdown?.volumeScore),
+      consistency: round(breakdown?.consistencyScore),
+      distance: round(breakdown?.distanceScore),
+    },
+    activityFactor: round(bird.activityFactor),
+    seasonalFrequency: round(bird.seasonalFrequency),
+    isNotable: !!bird.isNotable,
+    isExpected: !!bird.isExpected,
+    lastSeen: bird.obsDt,
+    locName: bird.locName,
+    locId: bird.locId,
+    lat: bird.lat,
+    lng: bird.lng,
+    howMany: bird.howMany ?? null,
+  };
+}
+
+export function sightingsToCsv(birds: BirdObservation[]): string {
+  const rows = birds.map(bird => {
+    const record = sightingRecord(bird);
+
+    return [
+      record.speciesCode,
+      record.comName,
+      record.sciName,
+      record.likelihood,
+      record.scores.frequency,
+      record.scores.recency,
+      record.scores.volume,
+      record.scores.consistency,
+      record.scores.distance,
+      record.activityFactor,
+      record.seasonalFrequency,
+      record.isNotable ? 'Y' : 'N',
+      record.isExpected ? 'Y' : 'N',
+      record.lastSeen,
+      record.locName,
+      record.locId,
+      record.lat,
+      record.lng,
+      record.howMany,
+    ].map(spreadsheetCsvField).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function sightingsToJson(birds: BirdObservation[], exportedAt: number = Date.now()): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date(exportedAt).toISOString(),
+      count: birds.length,
+      sightings: birds.map(sightingRecord),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,70 @@
+import { BirdObservation, Hotspot, LocationState } from '@/types/birds';
+import { distanceKm } from '@/utils/geo';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const MAX_CHANCE = 0.99;
+
+// Each hotspot checked for targets is a separate eBird request, so only this many are
+const TARGET_HOTSPOT_LIMIT = 12;
+
+export interface HotspotTargetScore {
+  locId: string;
+  expectedTargets: number; // sum of the per-target chances - "about 2 of 3 targets"
+  chances: Record<string, number>; // 0-1 chance per target speciesCode
+}
+
+// Chance of finding a species at a location from its recent reports there.
+// Each report counts as an independent hint that decays with age, so one
+// report yesterday scores ~0.9 and a lone report three weeks ago ~0.1.
+export function targetChance(reports: BirdObservation[], recencyDecayPerDay: number, now: number = Date.now()): number {
+  const missProbability = reports.reduce((miss, report) => {
+    const daysAgo = Math.max(0, (now - new Date(report.obsDt).getTime()) / MS_PER_DAY);
+    return miss * (1 - Math.exp(-recencyDecayPerDay * daysAgo));
+  }, 1);
+
+  // Never certain - matches the 99% ceiling on likelihood scores
+  return Math.min(MAX_CHANCE, 1 - missProbability);
+}
+
+// The hotspots worth checking for targets: the closest to `origin`, or the richest when
+// there's no origin to measure from
+export function hotspotsToCheckForTargets(
+  hotspots: Hotspot[],
+  origin: LocationState | null,
+  limit: number = TARGET_HOTSPOT_LIMIT
+): Hotspot[] {
+  const distanceTo = (hotspot: Hotspot) =>
+    origin ? distanceKm(origin.latitude, origin.longitude, hotspot.lat, hotspot.lng) : 0;
+
+  return [...hotspots]
+    .sort((a, b) =>
+      origin ? distanceTo(a) - distanceTo(b) : (b.numSpeciesAllTime || 0) - (a.numSpeciesAllTime || 0)
+    )
+    .slice(0, limit);
+}
+
+// Score every hotspot against the target species' recent sightings
+export function scoreHotspotsForTargets(
+  hotspots: Hotspot[],
+  sightingsBySpecies: Record<string, BirdObservation[]>,
+  recencyDecayPerDay: number,
+  now: number = Date.now()
+): Record<string, HotspotTargetScore> {
+  const scores: Record<string, HotspotTargetScore> = {};
+
+  hotspots.forEach(hotspot => {
+    const chances: Record<string, number> = {};
+    let expectedTargets = 0;
+
+    Object.entries(sightingsBySpecies).forEach(([speciesCode, sightings]) => {
+      const reportsHere = sightings.filter(sighting => sighting.locId === hotspot.locId);
+      const chance = reportsHere.length > 0 ? targetChance(reportsHere, recencyDecayPerDay, now) : 0;
+      chances[speciesCode] = chance;
+      expectedTargets += chance;
+    });
+
+    scores[hotspot.locId] = { locId: hotspot.locId, expectedTargets, chances };
+  });
+
+  return scores;
+}
@@ -0,0 +1,130 @@
+import { BirdObservation, Hotspot, LocationState } from '@/types/birds';
+import { distanceMiles } from '@/utils/geo';
+import { targetChance } from '@/utils/target-ranking';
+
+export interface PlannedRoute {
+  stops: Hotspot[]; // in visiting order
+  legMiles: number[]; // distance to each stop from the previous one (or the start)
+  totalMiles: number;
+}
+
+type Point = { lat: number; lng: number };
+
+const distanceBetween = (a: Point, b: Point) => distanceMiles(a.lat, a.lng, b.lat, b.lng);
+
+// Length of an open path that starts at the first point
+function pathLength(points: Point[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceBetween(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Greedy first pass: always drive to the closest hotspot not yet visited
+function nearestNeighbourOrder(start: Point, hotspots: Hotspot[]): Hotspot[] {
+  const remaining = [...hotspots];
+  const order: Hotspot[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    remaining.forEach((hotspot, index) => {
+      if (distanceBetween(current, hotspot) < distanceBetween(current, remaining[nearestIndex])) {
+        nearestIndex = index;
+      }
+    });
+    const [nearest] = remaining.splice(nearestIndex, 1);
+    order.push(nearest);
+    current = nearest;
+  }
+
+  return order;
+}
+
+// 2-opt: reverse any stretch of the route that makes it shorter, until nothing does.
+// The start stays fixed and the route ends at the last hotspot rather than returning.
+function twoOpt(start: Point, order: Hotspot[]): Hotspot[] {
+  let best = [...order];
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        if (pathLength([start, ...candidate]) < pathLength([start, ...best]) - 1e-9) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+// Distances for stops that are already in order, e.g. a saved trip
+export function describeRoute(start: LocationState, stops: Hotspot[]): PlannedRoute {
+  const origin = { lat: start.latitude, lng: start.longitude };
+  const legMiles = stops.map((stop, index) => distanceBetween(index === 0 ? origin : stops[index - 1], stop));
+
+  return {
+    stops,
+    legMiles,
+    totalMiles: legMiles.reduce((sum, leg) => sum + leg, 0),
+  };
+}
+
+// Order the hotspots into a short driving route from the start location
+export function planRoute(start: LocationState, hotspots: Hotspot[]): PlannedRoute {
+  const origin = { lat: start.latitude, lng: start.longitude };
+  return describeRoute(start, twoOpt(origin, nearestNeighbourOrder(origin, hotspots)));
+}
+
+// Species you can expect to see across all the stops. Reports of the same
+// species at different stops combine, so each species counts at most once.
+export function expectedTripSpecies(
+  observations: BirdObservation[],
+  recencyDecayPerDay: number,
+  now: number = Date.now()
+): number {
+  const bySpecies: Record<string, BirdObservation[]> = {};
+  observations.forEach(observation => {
+    bySpecies[observation.speciesCode] = [...(bySpecies[observation.speciesCode] || []), observation];
+  });
+
+  return Object.values(bySpecies).reduce((sum, reports) => sum + targetChance(reports, recencyDecayPerDay, now), 0);
+}
+
+// Google Maps ignores waypoints past this many, so longer trips are split into parts
+export const MAX_DIRECTIONS_WAYPOINTS = 9;
+
+export interface DirectionsLeg {
+  firstStop: number; // index into the route's stops
+  lastStop: number;
+  url: string;
+}
+
+// Google Maps directions through every stop, for handing off to navigation. Each part
+// covers up to ten stops and starts where the previous one ended.
+export function routeDirections(start: LocationState, stops: Hotspot[]): DirectionsLeg[] {
+  const legs: DirectionsLeg[] = [];
+  const stopsPerLeg = MAX_DIRECTIONS_WAYPOINTS + 1;
+
+  for (let first = 0; first < stops.length; first += stopsPerLeg) {
+    const legStops = stops.slice(first, first + stopsPerLeg);
+    const origin = first === 0 ? `${start.latitude},${start.longitude}` : `${stops[first - 1].lat},${stops[first - 1].lng}`;
+    const destination = legStops[legStops.length - 1];
+    const waypoints = legStops.slice(0, -1).map(stop => `${stop.lat},${stop.lng}`).join('|');
+
+    legs.push({
+      firstStop: first,
+      lastStop: first + legStops.length - 1,
+      url: `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination.lat},${destination.lng}` +
+        (waypoints ? `&waypoints=${encodeURIComponent(waypoints)}` : ''),
+    });
+  }
+
+  return legs;
+}